@@ -0,0 +1,163 @@
+import { Client, collectPaginatedAPI, isFullBlock } from "@notionhq/client";
+import { NotionBlock, appendBlocks } from "./markdown.js";
+
+export type BlockResponse = Extract<Awaited<ReturnType<Client["blocks"]["retrieve"]>>, { type: string }>;
+
+export type ReplaceTarget =
+  | { mode: "page" }
+  | { mode: "section", heading: string }
+  | { mode: "block", blockId: string };
+
+export const REPLACE_MODES = ["page", "section", "block"] as const;
+
+export interface ReplaceResult {
+  removed: { id: string, type: string }[];
+  added: string[];
+  // Subpages and inline databases in the replaced range, which are left in place
+  kept: { id: string, type: string }[];
+}
+
+export async function listChildren(notion: Client, blockId: string): Promise<BlockResponse[]> {
+  const results = await collectPaginatedAPI(notion.blocks.children.list, { block_id: blockId });
+  return results.filter(isFullBlock);
+}
+
+export interface BlockNode {
+  block: BlockResponse;
+  children: BlockNode[];
+  // The block has children below the depth limit that were not fetched
+  childrenOmitted?: boolean;
+}
+
+// Child pages and databases are separate documents, so they are linked rather than inlined
+const SEPARATE_DOCUMENTS = new Set(["child_page", "child_database"]);
+
+// Fetches the blocks under blockId and their descendants down to maxDepth levels
+export async function readBlockTree(notion: Client, blockId: string, maxDepth: number): Promise<BlockNode[]> {
+  const blocks = await listChildren(notion, blockId);
+  const nodes: BlockNode[] = [];
+  for (const block of blocks) {
+    const node: BlockNode = { block, children: [] };
+    if ((block.has_children || block.type === "synced_block") && !SEPARATE_DOCUMENTS.has(block.type)) {
+      if (maxDepth > 1) {
+        // A synced copy has no children of its own; they live under the original block
+        const source = block.type === "synced_block" && block.synced_block.synced_from ?
+          block.synced_block.synced_from.block_id :
+          block.id;
+        node.children = await readBlockTree(notion, source, maxDepth - 1);
+      } else {
+        node.childrenOmitted = true;
+      }
+    }
+    nodes.push(node);
+  }
+  return nodes;
+}
+
+export function plainText(richText: { plain_text: string }[]): string {
+  return richText.map(item => item.plain_text).join("");
+}
+
+function headingLevel(block: BlockResponse): number | undefined {
+  const match = block.type.match(/^heading_([123])$/);
+  return match ? Number(match[1]) : undefined;
+}
+
+function headingContent(block: BlockResponse) {
+  return block.type === "heading_1" ? block.heading_1 :
+    block.type === "heading_2" ? block.heading_2 :
+    block.type === "heading_3" ? block.heading_3 : undefined;
+}
+
+function headingText(block: BlockResponse): string {
+  return plainText(headingContent(block)?.rich_text ?? []).trim();
+}
+
+// The blocks after a heading up to the next heading of the same or a higher level.
+// A toggleable heading's content is its children instead, which the caller fetches
+function findSection(blocks: BlockResponse[], heading: string) {
+  const wanted = heading.replace(/^#+\s*/, "").trim().toLowerCase();
+  const start = blocks.findIndex(block =>
+    headingLevel(block) !== undefined && headingText(block).toLowerCase() === wanted);
+  if (start === -1) {
+    const headings = blocks.filter(block => headingLevel(block) !== undefined).map(headingText);
+    throw new Error(`No heading matching "${heading}"${headings.length > 0 ?
+      `; headings on the page: ${headings.map(text => `"${text}"`).join(", ")}` :
+      " (the page has no headings)"}`);
+  }
+
+  const level = headingLevel(blocks[start])!;
+  let end = start + 1;
+  while (end < blocks.length && (headingLevel(blocks[end]) ?? Infinity) > level) end++;
+  return { heading: blocks[start], body: blocks.slice(start + 1, end) };
+}
+
+function describeBlocks(blocks: BlockResponse[]) {
+  return blocks.map(block => ({ id: block.id, type: block.type }));
+}
+
+async function archiveBlocks(notion: Client, blocks: BlockResponse[]) {
+  for (const block of blocks) {
+    await notion.blocks.delete({ block_id: block.id });
+  }
+  return describeBlocks(blocks);
+}
+
+async function containsSeparateDocument(notion: Client, block: BlockResponse): Promise<boolean> {
+  if (SEPARATE_DOCUMENTS.has(block.type)) return true;
+  if (!block.has_children) return false;
+  for (const child of await listChildren(notion, block.id)) {
+    if (await containsSeparateDocument(notion, child)) return true;
+  }
+  return false;
+}
+
+// Archiving a child page or database block would trash the whole subpage or database, so those blocks,
+// and any block with one nested inside it, are kept
+async function replaceBlocks(notion: Client, existing: BlockResponse[], append: () => Promise<string[]>) {
+  const kept: BlockResponse[] = [];
+  const superseded: BlockResponse[] = [];
+  for (const block of existing) {
+    (await containsSeparateDocument(notion, block) ? kept : superseded).push(block);
+  }
+  const added = await append();
+  return { added, removed: await archiveBlocks(notion, superseded), kept: describeBlocks(kept) };
+}
+
+// New blocks are written before the old ones are archived, so a failure part way leaves the old content in place
+export async function replaceContent(
+  notion: Client,
+  pageId: string,
+  target: ReplaceTarget,
+  blocks: NotionBlock[],
+): Promise<ReplaceResult> {
+  switch (target.mode) {
+    case "page": {
+      const existing = await listChildren(notion, pageId);
+      return replaceBlocks(notion, existing, () => appendBlocks(notion, pageId, blocks));
+    }
+
+    case "section": {
+      const { heading, body } = findSection(await listChildren(notion, pageId), target.heading);
+      // A toggleable heading holds its content as children, even while it is empty
+      if (headingContent(heading)?.is_toggleable) {
+        const children = await listChildren(notion, heading.id);
+        return replaceBlocks(notion, children, () => appendBlocks(notion, heading.id, blocks));
+      }
+      return replaceBlocks(notion, body, () => appendBlocks(notion, pageId, blocks, heading.id));
+    }
+
+    case "block": {
+      const block = await notion.blocks.retrieve({ block_id: target.blockId });
+      if (!isFullBlock(block)) throw new Error(`Block not found: ${target.blockId}`);
+      const parent = block.parent;
+      const parentId = parent.type === "page_id" ? parent.page_id : parent.type === "block_id" ? parent.block_id : undefined;
+      if (!parentId) throw new Error(`Block ${target.blockId} is not inside a page`);
+      if (await containsSeparateDocument(notion, block)) {
+        throw new Error(`Block ${target.blockId} is or contains a child page or database, which replacing it would delete`);
+      }
+      const added = await appendBlocks(notion, parentId, blocks, block.id);
+      return { added, removed: await archiveBlocks(notion, [block]), kept: [] };
+    }
+  }
+}
@@ -0,0 +1,318 @@
+import { Client, isFullDatabase } from "@notionhq/client";
+import { toPlainRichText } from "./markdown.js";
+import { propertyToText } from "./render.js";
+
+type DatabaseResponse = Extract<Awaited<ReturnType<Client["databases"]["retrieve"]>>, { properties: unknown }>;
+type PageResponse = Extract<Awaited<ReturnType<Client["pages"]["retrieve"]>>, { properties: unknown }>;
+export type PropertySchema = DatabaseResponse["properties"][string];
+type QueryParameters = Parameters<Client["databases"]["query"]>[0];
+type QueryFilter = NonNullable<QueryParameters["filter"]>;
+type PropertyFilter = Extract<QueryFilter, { property: string }>;
+type PropertyValues = NonNullable<Parameters<Client["pages"]["update"]>[0]["properties"]>;
+type PropertyValue = PropertyValues[string];
+
+export interface DatabaseSchema {
+  id: string;
+  title: string;
+  properties: Record<string, PropertySchema>;
+}
+
+// Computed by Notion, so they can be read and filtered but not written
+const READ_ONLY_TYPES = new Set([
+  "formula", "rollup", "created_time", "created_by", "last_edited_time", "last_edited_by", "unique_id",
+]);
+
+export async function getDatabaseSchema(notion: Client, databaseId: string): Promise<DatabaseSchema> {
+  const database = await notion.databases.retrieve({ database_id: databaseId });
+  if (!isFullDatabase(database)) throw new Error(`Database not found: ${databaseId}`);
+  return {
+    id: database.id,
+    title: database.title.map(item => item.plain_text).join(""),
+    properties: database.properties,
+  };
+}
+
+// A compact description of each property, with the values it accepts where they are limited
+export function describeSchema(schema: DatabaseSchema) {
+  return {
+    id: schema.id,
+    title: schema.title,
+    properties: Object.values(schema.properties).map(property => {
+      const options = property.type === "select" ? property.select.options :
+        property.type === "multi_select" ? property.multi_select.options :
+        property.type === "status" ? property.status.options : undefined;
+      return {
+        name: property.name,
+        type: property.type,
+        ...(options && { options: options.map(option => option.name) }),
+        ...(property.type === "number" && { format: property.number.format }),
+        ...(property.type === "relation" && { databaseId: property.relation.database_id }),
+        ...(READ_ONLY_TYPES.has(property.type) && { readOnly: true }),
+      };
+    }),
+  };
+}
+
+// Exact names win over case-insensitive matches
+function findProperty(schema: DatabaseSchema, name: string): PropertySchema {
+  const property = schema.properties[name] ??
+    Object.values(schema.properties).find(candidate => candidate.name.toLowerCase() === name.toLowerCase());
+  if (!property) {
+    throw new Error(`Unknown property "${name}" (properties: ${Object.keys(schema.properties).join(", ")})`);
+  }
+  return property;
+}
+
+export function titlePropertyName(schema: DatabaseSchema): string {
+  const property = Object.values(schema.properties).find(candidate => candidate.type === "title");
+  if (!property) throw new Error(`Database ${schema.id} has no title property`);
+  return property.name;
+}
+
+// notion_add_to_database's tags go to a multi-select named Tags, or the database's only multi-select
+export function tagsPropertyName(schema: DatabaseSchema): string {
+  const multiSelects = Object.values(schema.properties).filter(candidate => candidate.type === "multi_select");
+  const property = multiSelects.find(candidate => candidate.name.toLowerCase() === "tags") ??
+    (multiSelects.length === 1 ? multiSelects[0] : undefined);
+  if (!property) {
+    throw new Error(multiSelects.length === 0 ?
+      `Database ${schema.id} has no multi-select property for tags` :
+      `Database ${schema.id} has several multi-select properties (${multiSelects.map(p => p.name).join(", ")}); set one through properties instead of tags`);
+  }
+  return property.name;
+}
+
+function asList(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (typeof value === "string") return value.split(",").map(item => item.trim()).filter(Boolean);
+  return [value];
+}
+
+function asString(value: unknown, expected: string): string {
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  if (typeof value !== "string") throw new Error(`expected ${expected}, got ${JSON.stringify(value)}`);
+  return value;
+}
+
+function asNumber(value: unknown): number {
+  const number = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+  if (typeof number !== "number" || !Number.isFinite(number)) {
+    throw new Error(`expected a number, got ${JSON.stringify(value)}`);
+  }
+  return number;
+}
+
+function asBoolean(value: unknown): boolean {
+  if (typeof value === "boolean") return value;
+  if (value === "true" || value === "false") return value === "true";
+  throw new Error(`expected true or false, got ${JSON.stringify(value)}`);
+}
+
+function asDate(value: unknown) {
+  if (typeof value === "string") return { start: value };
+  if (value && typeof value === "object" && typeof (value as { start?: unknown }).start === "string") {
+    const { start, end, time_zone } = value as { start: string, end?: string | null, time_zone?: string | null };
+    return { start, end: end ?? null, ...(time_zone && { time_zone }) };
+  }
+  throw new Error(`expected an ISO 8601 date or { start, end }, got ${JSON.stringify(value)}`);
+}
+
+// The Notion property value for a plain JSON value; null clears the property
+function coerceValue(property: PropertySchema, value: unknown): PropertyValue {
+  // Values already in Notion's own format are passed through
+  if (value && typeof value === "object" && !Array.isArray(value) && property.type in value) return value as PropertyValue;
+  if (READ_ONLY_TYPES.has(property.type)) throw new Error(`${property.type} properties are read-only`);
+
+  switch (property.type) {
+    case "title":
+      return { title: value === null ? [] : toPlainRichText(asString(value, "text")) };
+    case "rich_text":
+      return { rich_text: value === null ? [] : toPlainRichText(asString(value, "text")) };
+    case "number":
+      return { number: value === null ? null : asNumber(value) };
+    case "checkbox":
+      return { checkbox: asBoolean(value) };
+    case "select":
+      return { select: value === null ? null : { name: asString(value, "an option name") } };
+    case "status": {
+      if (value === null) return { status: null };
+      // Unlike select options, status options cannot be created through the API
+      const name = asString(value, "a status name");
+      const options = property.status.options;
+      if (!options.some(option => option.name === name)) {
+        throw new Error(`"${name}" is not one of ${options.map(option => `"${option.name}"`).join(", ")}`);
+      }
+      return { status: { name } };
+    }
+    case "multi_select": {
+      if (value === null) return { multi_select: [] };
+      // Option names may contain commas, so a string naming an existing option is not split
+      const names = typeof value === "string" && property.multi_select.options.some(option => option.name === value) ?
+        [value] :
+        asList(value);
+      return { multi_select: names.map(item => ({ name: asString(item, "option names") })) };
+    }
+    case "date":
+      return { date: value === null ? null : asDate(value) };
+    case "url":
+    case "email":
+    case "phone_number": {
+      const text = value === null || value === "" ? null : asString(value, "text");
+      return property.type === "url" ? { url: text } : property.type === "email" ? { email: text } : { phone_number: text };
+    }
+    case "people":
+      return { people: value === null ? [] : asList(value).map(id => ({ id: asString(id, "user IDs") })) };
+    case "relation":
+      return { relation: value === null ? [] : asList(value).map(id => ({ id: asString(id, "page IDs") })) };
+    case "files":
+      return {
+        files: value === null ? [] : asList(value).map(url => {
+          const href = asString(url, "file URLs");
+          return { name: href.split("/").pop()?.split("?")[0] || href, type: "external" as const, external: { url: href } };
+        }),
+      };
+    default:
+      throw new Error(`${property.type} properties cannot be set`);
+  }
+}
+
+// Converts { "Property name": plain JSON value } into Notion property values, reporting every invalid property at once
+export function coerceProperties(schema: DatabaseSchema, values: Record<string, unknown>): PropertyValues {
+  const properties: PropertyValues = {};
+  const errors: string[] = [];
+  for (const [name, value] of Object.entries(values)) {
+    try {
+      const property = findProperty(schema, name);
+      properties[property.name] = coerceValue(property, value);
+    } catch (error) {
+      const message = (error as Error).message;
+      errors.push(message.startsWith("Unknown property") ? message : `Property "${name}": ${message}`);
+    }
+  }
+  if (errors.length > 0) throw new Error(errors.join("; "));
+  return properties;
+}
+
+const OPERATOR_ALIASES: Record<string, string> = {
+  "=": "equals", "!=": "does_not_equal", ">": "greater_than", "<": "less_than",
+  ">=": "greater_than_or_equal_to", "<=": "less_than_or_equal_to",
+};
+
+// Dates compare with before/after rather than less/greater than
+const DATE_OPERATORS: Record<string, string> = {
+  greater_than: "after", less_than: "before", greater_than_or_equal_to: "on_or_after", less_than_or_equal_to: "on_or_before",
+};
+
+const TEXT_OPERATORS = ["equals", "does_not_equal", "contains", "does_not_contain", "starts_with", "ends_with", "is_empty", "is_not_empty"];
+const NUMBER_OPERATORS = ["equals", "does_not_equal", "greater_than", "less_than", "greater_than_or_equal_to", "less_than_or_equal_to", "is_empty", "is_not_empty"];
+const OPTION_OPERATORS = ["equals", "does_not_equal", "is_empty", "is_not_empty"];
+const LIST_OPERATORS = ["contains", "does_not_contain", "is_empty", "is_not_empty"];
+const DATE_FILTER_OPERATORS = [
+  "equals", "before", "after", "on_or_before", "on_or_after", "is_empty", "is_not_empty",
+  "this_week", "past_week", "past_month", "past_year", "next_week", "next_month", "next_year",
+];
+
+const MULTI_VALUE_TYPES = new Set(["multi_select", "people", "relation", "created_by", "last_edited_by"]);
+const DATE_TYPES = new Set(["date", "created_time", "last_edited_time"]);
+
+const FILTER_OPERATORS: Record<string, string[]> = {
+  title: TEXT_OPERATORS, rich_text: TEXT_OPERATORS, url: TEXT_OPERATORS, email: TEXT_OPERATORS, phone_number: TEXT_OPERATORS,
+  number: NUMBER_OPERATORS, unique_id: NUMBER_OPERATORS.filter(operator => !operator.startsWith("is_")),
+  checkbox: ["equals", "does_not_equal"],
+  select: OPTION_OPERATORS, status: OPTION_OPERATORS,
+  multi_select: LIST_OPERATORS, people: LIST_OPERATORS, relation: LIST_OPERATORS,
+  created_by: LIST_OPERATORS, last_edited_by: LIST_OPERATORS,
+  date: DATE_FILTER_OPERATORS, created_time: DATE_FILTER_OPERATORS, last_edited_time: DATE_FILTER_OPERATORS,
+  files: ["is_empty", "is_not_empty"],
+};
+
+function filterValue(property: PropertySchema, operator: string, value: unknown): unknown {
+  if (operator === "is_empty" || operator === "is_not_empty") return true;
+  if (/^(this|past|next)_/.test(operator)) return {};
+  if (property.type === "number" || property.type === "unique_id") return asNumber(value);
+  if (property.type === "checkbox") return asBoolean(value);
+  return asString(value, DATE_TYPES.has(property.type) ? "an ISO 8601 date" : "text");
+}
+
+function propertyFilter(property: PropertySchema, condition: unknown) {
+  // A bare value means equality, or membership for properties that hold several values
+  const conditions = condition !== null && typeof condition === "object" && !Array.isArray(condition) ?
+    condition as Record<string, unknown> :
+    { [MULTI_VALUE_TYPES.has(property.type) ? "contains" : "equals"]: condition };
+
+  const allowed = FILTER_OPERATORS[property.type];
+  if (!allowed) throw new Error(`${property.type} properties cannot be filtered`);
+
+  const filters = Object.entries(conditions).map(([rawOperator, value]) => {
+    let operator = OPERATOR_ALIASES[rawOperator] ?? rawOperator;
+    if (DATE_TYPES.has(property.type)) operator = DATE_OPERATORS[operator] ?? operator;
+    if (!allowed.includes(operator)) {
+      throw new Error(`unsupported operator "${rawOperator}" for a ${property.type} property (supported: ${allowed.join(", ")})`);
+    }
+    return { property: property.name, [property.type]: { [operator]: filterValue(property, operator, value) } } as PropertyFilter;
+  });
+  return filters;
+}
+
+/*
+ * Builds a Notion filter from the simple form:
+ *   { "Status": "Done", "Estimate": { ">=": 3 }, "or": [{ "Tags": "urgent" }, { "Due": { "before": "2024-06-01" } }] }
+ * Properties in one object are combined with and; "and" and "or" take arrays of such objects.
+ */
+export function buildFilter(schema: DatabaseSchema, filter: Record<string, unknown>): QueryParameters["filter"] {
+  const filters: QueryFilter[] = [];
+  for (const [key, condition] of Object.entries(filter)) {
+    if (key === "and" || key === "or") {
+      if (!Array.isArray(condition)) throw new Error(`"${key}" must be an array of filters`);
+      filters.push({ [key]: condition.map(item => buildFilter(schema, item as Record<string, unknown>)) } as QueryFilter);
+      continue;
+    }
+    const property = findProperty(schema, key);
+    try {
+      filters.push(...propertyFilter(property, condition));
+    } catch (error) {
+      throw new Error(`Property "${property.name}": ${(error as Error).message}`);
+    }
+  }
+  // Notion checks the nesting depth of compound filters itself
+  return filters.length === 1 ? filters[0] : { and: filters } as QueryFilter;
+}
+
+// "Name" or "-Due" (descending), or { property, direction: "ascending" | "descending" }
+export function buildSorts(schema: DatabaseSchema, sorts: unknown[]): QueryParameters["sorts"] {
+  return sorts.map(sort => {
+    let name: string;
+    let descending: boolean;
+    if (typeof sort === "string") {
+      descending = sort.startsWith("-");
+      name = sort.replace(/^[-+]/, "");
+    } else if (sort && typeof sort === "object" && typeof (sort as { property?: unknown }).property === "string") {
+      const { property, direction = "ascending" } = sort as { property: string, direction?: string };
+      if (!["ascending", "descending", "asc", "desc"].includes(direction)) {
+        throw new Error(`Sort on "${property}": direction must be ascending or descending`);
+      }
+      name = property;
+      descending = direction.startsWith("desc");
+    } else {
+      throw new Error(`Invalid sort: ${JSON.stringify(sort)}`);
+    }
+
+    const direction = descending ? "descending" as const : "ascending" as const;
+    // The page timestamps can be sorted on even when the database has no property for them
+    const matches = schema.properties[name] ??
+      Object.values(schema.properties).find(candidate => candidate.name.toLowerCase() === name.toLowerCase());
+    if (!matches && (name === "created_time" || name === "last_edited_time")) return { timestamp: name, direction };
+    return { property: findProperty(schema, name).name, direction };
+  });
+}
+
+// A query result row with property values as plain text
+export function summarizeEntry(page: PageResponse) {
+  return {
+    id: page.id,
+    url: page.url,
+    properties: Object.fromEntries(
+      Object.entries(page.properties).map(([name, value]) => [name, propertyToText(value)]),
+    ),
+  };
+}
@@ -0,0 +1,635 @@
+#!/usr/bin/env node
+
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import {
+  CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  CallToolResult,
+  Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+import dotenv from "dotenv";
+import path from "path";
+import { fileURLToPath } from "url";
+import { Client, isFullPage } from "@notionhq/client";
+import { appendBlocks, markdownToBlocks } from "./markdown.js";
+import { REPLACE_MODES, ReplaceTarget, readBlockTree, replaceContent } from "./blocks.js";
+import { renderPage } from "./render.js";
+import {
+  buildFilter,
+  buildSorts,
+  coerceProperties,
+  describeSchema,
+  getDatabaseSchema,
+  summarizeEntry,
+  tagsPropertyName,
+  titlePropertyName,
+} from "./database.js";
+import { OBJECT_TYPES, parseResourceUri, renderDatabase, searchWorkspace } from "./workspace.js";
+
+// 1. Configuration & Environment Setup
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+dotenv.config({ path: path.resolve(__dirname, '../.env') });
+
+// Environment variables configuration
+const requiredEnvVars = {
+  NOTION_API_KEY: process.env.NOTION_API_KEY,
+};
+
+// Validate required environment variables
+Object.entries(requiredEnvVars).forEach(([name, value]) => {
+  if (!value) throw new Error(`${name} environment variable is required`);
+});
+
+// Optional environment variables; without them pageUrl and databaseId must be given
+const NOTION_PAGE_URL = process.env.NOTION_PAGE_URL;
+const NOTION_DATABASE_ID = process.env.NOTION_DATABASE_ID;
+
+// 2. Global State
+const notion = new Client({ auth: process.env.NOTION_API_KEY });
+
+// 3. Helper Functions
+function extractNotionPageId(url: string): string {
+  const match = url.match(/[a-zA-Z0-9]{8}-?[a-zA-Z0-9]{4}-?[a-zA-Z0-9]{4}-?[a-zA-Z0-9]{4}-?[a-zA-Z0-9]{12}/);
+  if (!match) throw new Error("Could not extract page ID from Notion URL");
+  return match[0].replace(/-/g, '');
+}
+
+function resolvePageId(pageUrl?: string): string {
+  const url = pageUrl || NOTION_PAGE_URL;
+  if (!url) throw new Error("No pageUrl given and NOTION_PAGE_URL is not set; use notion_search to find pages");
+  return extractNotionPageId(url);
+}
+
+function resolveDatabaseId(databaseId?: string): string {
+  const id = databaseId || NOTION_DATABASE_ID;
+  if (!id) throw new Error("No databaseId given and NOTION_DATABASE_ID is not set; use notion_search to find databases");
+  return extractNotionPageId(id);
+}
+
+// 4. Tool Definitions
+const TOOLS: Tool[] = [
+  {
+    name: "notion_read_page",
+    description: "Read a Notion page as Markdown, with its title, properties and nested blocks",
+    inputSchema: {
+      type: "object",
+      properties: {
+        pageUrl: { type: "string", description: "URL or ID of the page to read (optional - will use NOTION_PAGE_URL if not provided)" },
+        maxDepth: { type: "number", description: "Levels of nested blocks to read, counting the top level as 1. Default: 5" },
+        includeIds: { type: "boolean", description: "Tag each block with its ID in an HTML comment, for use with notion_update_page. Default: false" },
+      },
+      required: [], // Optional when NOTION_PAGE_URL is set
+    },
+  },
+  {
+    name: "notion_update_page",
+    description: "Replace content in a Notion page: the whole body, the section under a heading, or a single block. Superseded blocks are archived",
+    inputSchema: {
+      type: "object",
+      properties: {
+        pageId: { type: "string", description: "ID of the page to update" },
+        content: { type: "string", description: "Replacement content, as Markdown" },
+        replace: {
+          type: "string",
+          enum: REPLACE_MODES,
+          description: "What to replace: 'page' (the whole body), 'section' (the blocks under heading, up to the next heading of the same or higher level) or 'block' (the block blockId). Default: page",
+        },
+        heading: { type: "string", description: "Text of the heading whose section to replace, matched case-insensitively (for replace: 'section')" },
+        blockId: { type: "string", description: "ID of the block to replace (for replace: 'block')" },
+      },
+      required: ["pageId", "content"],
+    },
+  },
+  {
+    name: "notion_append_content",
+    description: "Append content to a Notion page",
+    inputSchema: {
+      type: "object",
+      properties: {
+        pageId: { type: "string", description: "ID of the page to append to" },
+        content: { type: "string", description: "Content to append, as Markdown" },
+      },
+      required: ["pageId", "content"],
+    },
+  },
+  {
+    name: "notion_read_comments",
+    description: "Read comments from a Notion page",
+    inputSchema: {
+      type: "object",
+      properties: {
+        pageId: { type: "string", description: "ID of the page to read comments from" },
+      },
+      required: ["pageId"],
+    },
+  },
+  {
+    name: "notion_add_comment",
+    description: "Add a comment to a Notion page",
+    inputSchema: {
+      type: "object",
+      properties: {
+        pageId: { type: "string", description: "ID of the page to comment on" },
+        comment: { type: "string", description: "Comment text" },
+      },
+      required: ["pageId", "comment"],
+    },
+  },
+  {
+    name: "notion_add_to_database",
+    description: "Add a new entry to a Notion database",
+    inputSchema: {
+      type: "object",
+      properties: {
+        databaseId: { 
+          type: "string", 
+          description: "ID or URL of the database (optional - will use NOTION_DATABASE_ID if not provided)" 
+        },
+        title: { type: "string", description: "Title of the entry, set on the database's title property" },
+        tags: { 
+          type: "array", 
+          description: "Tags for the multi-select property named Tags, or the database's only multi-select property",
+          items: { type: "string" }
+        },
+        properties: { 
+          type: "object", 
+          description: "Other property values by name, as plain JSON converted according to the database schema (optional)",
+          additionalProperties: true 
+        },
+        content: { type: "string", description: "Content for the page as Markdown (optional)" }
+      },
+      required: ["title"],
+    },
+  },
+  {
+    name: "notion_get_database_schema",
+    description: "Get the properties of a Notion database with their types and options",
+    inputSchema: {
+      type: "object",
+      properties: {
+        databaseId: { type: "string", description: "ID or URL of the database (optional - will use NOTION_DATABASE_ID if not provided)" },
+      },
+      required: [],
+    },
+  },
+  {
+    name: "notion_query_database",
+    description: "Query the entries of a Notion database with optional filters, sorts and pagination",
+    inputSchema: {
+      type: "object",
+      properties: {
+        databaseId: { type: "string", description: "ID or URL of the database (optional - will use NOTION_DATABASE_ID if not provided)" },
+        filter: {
+          type: "object",
+          description: "Property conditions, e.g. { \"Status\": \"Done\", \"Estimate\": { \">=\": 3 }, \"or\": [{ \"Tags\": \"urgent\" }, { \"Due\": { \"before\": \"2024-06-01\" } }] }. A bare value tests equality (membership for multi-value properties); conditions in one object are combined with and",
+          additionalProperties: true,
+        },
+        sorts: {
+          type: "array",
+          description: "Property names to sort by, prefixed with - for descending, e.g. [\"-Due\", \"Name\"]",
+          items: { type: "string" },
+        },
+        pageSize: { type: "number", description: "Entries per page, up to 100. Default: 25" },
+        startCursor: { type: "string", description: "nextCursor from a previous query, to fetch the next page" },
+      },
+      required: [],
+    },
+  },
+  {
+    name: "notion_update_database_entry",
+    description: "Update property values of a Notion database entry",
+    inputSchema: {
+      type: "object",
+      properties: {
+        pageId: { type: "string", description: "ID of the database entry" },
+        properties: {
+          type: "object",
+          description: "Property values by name, as plain JSON converted according to the database schema. null clears a property",
+          additionalProperties: true,
+        },
+      },
+      required: ["pageId", "properties"],
+    },
+  },
+  {
+    name: "notion_search",
+    description: "Search the pages and databases shared with the integration by title",
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: { type: "string", description: "Text to match in titles (optional - lists everything if not provided)" },
+        type: { type: "string", enum: OBJECT_TYPES, description: "Only return pages or only databases (optional)" },
+        pageSize: { type: "number", description: "Results per page, up to 100. Default: 20" },
+        startCursor: { type: "string", description: "nextCursor from a previous search, to fetch the next page" },
+      },
+      required: [],
+    },
+  },
+];
+
+// 5. Tool Handler Implementation
+async function handleToolCall(name: string, args: any): Promise<{ toolResult: CallToolResult }> {
+  switch (name) {
+    case "notion_read_page":
+      try {
+        const pageId = resolvePageId(args.pageUrl);
+        const maxDepth = args.maxDepth ?? 5;
+        if (!Number.isInteger(maxDepth) || maxDepth < 1) throw new Error("maxDepth must be a positive integer");
+        const blocks = await readBlockTree(notion, pageId, maxDepth);
+
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: await renderPage(notion, pageId, blocks, { includeIds: args.includeIds ?? false }),
+            }],
+            isError: false,
+          },
+        };
+      } catch (error) {
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Failed to read page: ${(error as Error).message}`,
+            }],
+            isError: true,
+          },
+        };
+      }
+
+    case "notion_update_page":
+      try {
+        const mode = args.replace ?? "page";
+        let target: ReplaceTarget;
+        if (mode === "page") {
+          target = { mode };
+        } else if (mode === "section") {
+          if (!args.heading) throw new Error("heading is required when replace is 'section'");
+          target = { mode, heading: args.heading };
+        } else if (mode === "block") {
+          if (!args.blockId) throw new Error("blockId is required when replace is 'block'");
+          target = { mode, blockId: args.blockId };
+        } else {
+          throw new Error(`Unknown replace mode: ${mode} (expected ${REPLACE_MODES.join(", ")})`);
+        }
+
+        const result = await replaceContent(notion, args.pageId, target, markdownToBlocks(args.content));
+
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Page updated successfully (${result.added.length} blocks added, ${result.removed.length} archived${result.kept.length > 0 ? `, ${result.kept.length} kept to protect subpages and databases` : ""})\n` +
+                JSON.stringify(result, null, 2),
+            }],
+            isError: false,
+          },
+        };
+      } catch (error) {
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Failed to update page: ${(error as Error).message}`,
+            }],
+            isError: true,
+          },
+        };
+      }
+
+    case "notion_append_content":
+      try {
+        const added = await appendBlocks(notion, args.pageId, markdownToBlocks(args.content));
+
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Content appended successfully (${added.length} blocks added)`,
+            }],
+            isError: false,
+          },
+        };
+      } catch (error) {
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Failed to append content: ${(error as Error).message}`,
+            }],
+            isError: true,
+          },
+        };
+      }
+
+    case "notion_read_comments":
+      try {
+        const comments = await notion.comments.list({
+          block_id: args.pageId,
+        });
+
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: JSON.stringify(comments, null, 2),
+            }],
+            isError: false,
+          },
+        };
+      } catch (error) {
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Failed to read comments: ${(error as Error).message}`,
+            }],
+            isError: true,
+          },
+        };
+      }
+
+    case "notion_add_comment":
+      try {
+        await notion.comments.create({
+          parent: { page_id: args.pageId },
+          rich_text: [{
+            text: { content: args.comment }
+          }],
+        });
+
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: "Comment added successfully",
+            }],
+            isError: false,
+          },
+        };
+      } catch (error) {
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Failed to add comment: ${(error as Error).message}`,
+            }],
+            isError: true,
+          },
+        };
+      }
+
+    case "notion_add_to_database":
+      try {
+        const schema = await getDatabaseSchema(notion, resolveDatabaseId(args.databaseId));
+        const values: Record<string, unknown> = { ...args.properties, [titlePropertyName(schema)]: args.title };
+        if (args.tags && args.tags.length > 0) {
+          values[tagsPropertyName(schema)] = args.tags;
+        }
+        const properties = coerceProperties(schema, values);
+
+        // Content is appended after the page exists, so appendBlocks can batch it and nested children alike
+        const blocks = args.content ? markdownToBlocks(args.content) : [];
+        const response = await notion.pages.create({
+          parent: {
+            database_id: schema.id,
+          },
+          properties,
+        });
+        await appendBlocks(notion, response.id, blocks);
+
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Created database entry: https://notion.so/${response.id.replace(/-/g, '')}`,
+            }],
+            isError: false,
+          },
+        };
+      } catch (error) {
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Failed to create database entry: ${(error as Error).message}`,
+            }],
+            isError: true,
+          },
+        };
+      }
+
+    case "notion_get_database_schema":
+      try {
+        const schema = await getDatabaseSchema(notion, resolveDatabaseId(args.databaseId));
+
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: JSON.stringify(describeSchema(schema), null, 2),
+            }],
+            isError: false,
+          },
+        };
+      } catch (error) {
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Failed to get database schema: ${(error as Error).message}`,
+            }],
+            isError: true,
+          },
+        };
+      }
+
+    case "notion_query_database":
+      try {
+        const schema = await getDatabaseSchema(notion, resolveDatabaseId(args.databaseId));
+        const pageSize = args.pageSize ?? 25;
+        if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > 100) {
+          throw new Error("pageSize must be an integer from 1 to 100");
+        }
+        const response = await notion.databases.query({
+          database_id: schema.id,
+          ...(args.filter && Object.keys(args.filter).length > 0 && { filter: buildFilter(schema, args.filter) }),
+          ...(args.sorts && args.sorts.length > 0 && { sorts: buildSorts(schema, args.sorts) }),
+          page_size: pageSize,
+          ...(args.startCursor && { start_cursor: args.startCursor }),
+        });
+
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                entries: response.results.filter(isFullPage).map(summarizeEntry),
+                nextCursor: response.next_cursor,
+              }, null, 2),
+            }],
+            isError: false,
+          },
+        };
+      } catch (error) {
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Failed to query database: ${(error as Error).message}`,
+            }],
+            isError: true,
+          },
+        };
+      }
+
+    case "notion_update_database_entry":
+      try {
+        const page = await notion.pages.retrieve({ page_id: args.pageId });
+        if (!isFullPage(page)) throw new Error(`Page not found: ${args.pageId}`);
+        if (page.parent.type !== "database_id") throw new Error(`Page ${args.pageId} is not a database entry`);
+        const schema = await getDatabaseSchema(notion, page.parent.database_id);
+        const updated = await notion.pages.update({
+          page_id: page.id,
+          properties: coerceProperties(schema, args.properties),
+        });
+
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: JSON.stringify(isFullPage(updated) ? summarizeEntry(updated) : { id: updated.id }, null, 2),
+            }],
+            isError: false,
+          },
+        };
+      } catch (error) {
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Failed to update database entry: ${(error as Error).message}`,
+            }],
+            isError: true,
+          },
+        };
+      }
+
+    case "notion_search":
+      try {
+        const pageSize = args.pageSize ?? 20;
+        if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > 100) {
+          throw new Error("pageSize must be an integer from 1 to 100");
+        }
+        if (args.type && !OBJECT_TYPES.includes(args.type)) {
+          throw new Error(`Unknown type: ${args.type} (expected ${OBJECT_TYPES.join(", ")})`);
+        }
+        const results = await searchWorkspace(notion, {
+          query: args.query,
+          type: args.type,
+          pageSize,
+          startCursor: args.startCursor,
+        });
+
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: JSON.stringify(results, null, 2),
+            }],
+            isError: false,
+          },
+        };
+      } catch (error) {
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Failed to search: ${(error as Error).message}`,
+            }],
+            isError: true,
+          },
+        };
+      }
+
+    default:
+      return {
+        toolResult: {
+          content: [{
+            type: "text",
+            text: `Unknown tool: ${name}`,
+          }],
+          isError: true,
+        },
+      };
+  }
+}
+
+// 6. Server Setup and Configuration
+const server = new Server(
+  {
+    name: "example-servers/notion",
+    version: "0.1.0",
+  },
+  {
+    capabilities: {
+      resources: {},
+      tools: {},
+    },
+  },
+);
+
+// 7. Request Handlers
+server.setRequestHandler(ListToolsRequestSchema, async () => ({
+  tools: TOOLS,
+}));
+
+server.setRequestHandler(CallToolRequestSchema, async (request) => 
+  handleToolCall(request.params.name, request.params.arguments ?? {})
+);
+
+// Shared pages and databases, most recently edited first
+server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+  const { results, nextCursor } = await searchWorkspace(notion, {
+    pageSize: 50,
+    startCursor: request.params?.cursor,
+  });
+
+  return {
+    resources: results.map((result) => ({
+      uri: result.uri,
+      mimeType: "text/markdown",
+      name: result.title,
+      description: `Notion ${result.type}`,
+    })),
+    ...(nextCursor && { nextCursor }),
+  };
+});
+
+server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+  const { type, id } = parseResourceUri(request.params.uri);
+  const text = type === "page" ?
+    await renderPage(notion, id, await readBlockTree(notion, id, 5), { includeIds: false }) :
+    await renderDatabase(notion, id);
+
+  return {
+    contents: [{
+      uri: request.params.uri,
+      mimeType: "text/markdown",
+      text,
+    }],
+  };
+});
+
+// 8. Server Initialization
+async function runServer() {
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+}
+
+runServer().catch(console.error);
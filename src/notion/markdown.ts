@@ -0,0 +1,393 @@
+import { Client } from "@notionhq/client";
+
+export type BlockRequest = Parameters<Client["blocks"]["children"]["append"]>[0]["children"][number];
+
+// Notion API limits
+export const MAX_TEXT_LENGTH = 2000;
+export const MAX_RICH_TEXT_ITEMS = 100;
+export const MAX_CHILDREN_PER_REQUEST = 100;
+// Counting every nested block
+export const MAX_BLOCKS_PER_REQUEST = 1000;
+// Children may be nested two levels below the blocks in one request
+const MAX_NESTING = 2;
+
+interface Annotations {
+  bold?: boolean;
+  italic?: boolean;
+  strikethrough?: boolean;
+  code?: boolean;
+}
+
+export interface RichText {
+  type: "text";
+  text: { content: string, link?: { url: string } };
+  annotations?: Annotations;
+}
+
+// Blocks built here always name their type, which the request types leave optional
+export type NotionBlock = BlockRequest & { type: NonNullable<BlockRequest["type"]> };
+
+// The field named after a block's type, e.g. block.paragraph, which holds its text and nested children
+interface BlockContent {
+  rich_text: RichText[];
+  children?: NotionBlock[];
+}
+
+function blockContent(block: NotionBlock): BlockContent {
+  return (block as unknown as Record<string, BlockContent>)[block.type];
+}
+
+const CODE_LANGUAGES = new Set([
+  "abap", "arduino", "bash", "basic", "c", "c#", "c++", "clojure", "coffeescript", "css", "dart", "diff", "docker",
+  "elixir", "elm", "erlang", "f#", "fortran", "gherkin", "glsl", "go", "graphql", "groovy", "haskell", "hcl", "html",
+  "java", "javascript", "json", "julia", "kotlin", "latex", "less", "lisp", "lua", "makefile", "markdown", "matlab",
+  "mermaid", "nix", "objective-c", "ocaml", "pascal", "perl", "php", "plain text", "powershell", "prolog", "protobuf",
+  "python", "r", "racket", "ruby", "rust", "sass", "scala", "scheme", "scss", "shell", "solidity", "sql", "swift",
+  "toml", "typescript", "vb.net", "verilog", "vhdl", "visual basic", "webassembly", "xml", "yaml",
+]);
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: "javascript", jsx: "javascript", mjs: "javascript", ts: "typescript", tsx: "typescript", py: "python",
+  rb: "ruby", rs: "rust", sh: "shell", zsh: "shell", console: "shell", yml: "yaml", md: "markdown",
+  dockerfile: "docker", cs: "c#", csharp: "c#", cpp: "c++", kt: "kotlin", tf: "hcl", ps1: "powershell",
+  text: "plain text", txt: "plain text", plaintext: "plain text", "": "plain text",
+};
+
+function codeLanguage(info: string): string {
+  const language = info.trim().split(/\s+/)[0].toLowerCase();
+  const mapped = LANGUAGE_ALIASES[language] ?? language;
+  return CODE_LANGUAGES.has(mapped) ? mapped : "plain text";
+}
+
+// Code spans, links, bold italics, bold, strikethrough, italics and backslash escapes, in that order of precedence
+const INLINE = new RegExp([
+  /(`+)(.+?)\1/.source,
+  /\[([^\]]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/.source,
+  /\*\*\*(.+?)\*\*\*/.source,
+  /(?<!\w)___(.+?)___(?!\w)/.source,
+  /\*\*(.+?)\*\*/.source,
+  /(?<!\w)__(.+?)__(?!\w)/.source,
+  /~~(.+?)~~/.source,
+  /\*([^*\s](?:[^*]*[^*\s])?)\*/.source,
+  /(?<!\w)_([^_\s](?:[^_]*[^_\s])?)_(?!\w)/.source,
+  /\\([\\`*_{}[\]()#+\-.!~|>])/.source,
+].join("|"), "g");
+
+function parseInline(text: string, annotations: Annotations = {}, link?: string): RichText[] {
+  const result: RichText[] = [];
+  const push = (content: string, extra: Annotations = {}) => {
+    if (!content) return;
+    const merged = { ...annotations, ...extra };
+    result.push({
+      type: "text",
+      text: { content, ...(link && { link: { url: link } }) },
+      ...(Object.keys(merged).length > 0 && { annotations: merged }),
+    });
+  };
+
+  let last = 0;
+  for (const match of Array.from(text.matchAll(INLINE))) {
+    push(text.slice(last, match.index));
+    last = match.index! + match[0].length;
+    const [
+      , , code, linkText, url, boldItalic, boldItalicUnderscore, bold, boldUnderscore, strike, italic, italicUnderscore, escaped,
+    ] = match;
+
+    if (code !== undefined) push(code.trim() || code, { code: true });
+    // Notion only accepts absolute links; relative ones keep their text
+    else if (linkText !== undefined) {
+      result.push(...parseInline(linkText, annotations, /^https?:\/\//.test(url) ? url : link));
+    }
+    else if (boldItalic !== undefined || boldItalicUnderscore !== undefined) {
+      result.push(...parseInline(boldItalic ?? boldItalicUnderscore, { ...annotations, bold: true, italic: true }, link));
+    }
+    else if (bold !== undefined || boldUnderscore !== undefined) {
+      result.push(...parseInline(bold ?? boldUnderscore, { ...annotations, bold: true }, link));
+    }
+    else if (strike !== undefined) result.push(...parseInline(strike, { ...annotations, strikethrough: true }, link));
+    else if (italic !== undefined || italicUnderscore !== undefined) {
+      result.push(...parseInline(italic ?? italicUnderscore, { ...annotations, italic: true }, link));
+    }
+    else push(escaped);
+  }
+  push(text.slice(last));
+  return result;
+}
+
+// Splits text items over Notion's per-item length limit
+function chunkRichText(items: RichText[]): RichText[] {
+  return items.flatMap(item => {
+    const { content } = item.text;
+    if (content.length <= MAX_TEXT_LENGTH) return [item];
+    const chunks: RichText[] = [];
+    for (let i = 0; i < content.length; i += MAX_TEXT_LENGTH) {
+      chunks.push({ ...item, text: { ...item.text, content: content.slice(i, i + MAX_TEXT_LENGTH) } });
+    }
+    return chunks;
+  });
+}
+
+export function toRichText(text: string): RichText[] {
+  return chunkRichText(parseInline(text));
+}
+
+// Rich text for a string taken literally, without Markdown
+export function toPlainRichText(text: string): RichText[] {
+  return chunkRichText([{ type: "text", text: { content: text } }]);
+}
+
+// One block per 100 rich text items, so very long paragraphs become several blocks
+function textBlocks(type: NotionBlock["type"], richText: RichText[], extra: Record<string, unknown> = {}): NotionBlock[] {
+  const blocks: NotionBlock[] = [];
+  for (let i = 0; i === 0 || i < richText.length; i += MAX_RICH_TEXT_ITEMS) {
+    blocks.push({
+      object: "block",
+      type,
+      [type]: { rich_text: richText.slice(i, i + MAX_RICH_TEXT_ITEMS), ...extra },
+    } as NotionBlock);
+  }
+  return blocks;
+}
+
+const FENCE = /^\s*(`{3,}|~{3,})(.*)$/;
+const HEADING = /^\s*(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const DIVIDER = /^\s*([-*_])(?:\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TODO = /^\[([ xX])\]\s+(.*)$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const IMAGE = /^\s*!\[([^\]]*)\]\((https?:\/\/[^)\s]+)(?:\s+"[^"]*")?\)\s*$/;
+
+function splitTableRow(line: string): string[] {
+  const trimmed = line.trim().replace(/^\|/, "").replace(/(?<!\\)\|$/, "");
+  return trimmed.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, "|"));
+}
+
+function isTableStart(lines: string[], i: number): boolean {
+  return lines[i].includes("|") && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1]) &&
+    lines[i + 1].includes("-");
+}
+
+function startsBlock(lines: string[], i: number): boolean {
+  const line = lines[i];
+  return FENCE.test(line) || HEADING.test(line) || DIVIDER.test(line) || LIST_ITEM.test(line) ||
+    QUOTE.test(line) || IMAGE.test(line) || isTableStart(lines, i);
+}
+
+function indentWidth(whitespace: string): number {
+  return whitespace.replace(/\t/g, "    ").length;
+}
+
+// Rich text may run past the per-block limit until splitListOverflow trims it
+function listItemBlock(marker: string, text: string): NotionBlock {
+  const todo = text.match(TODO);
+  if (todo) {
+    return { object: "block", type: "to_do", to_do: { rich_text: toRichText(todo[2]), checked: todo[1] !== " " } };
+  }
+  const type = /\d/.test(marker) ? "numbered_list_item" : "bulleted_list_item";
+  return { object: "block", type, [type]: { rich_text: toRichText(text) } } as NotionBlock;
+}
+
+// Items keep their first 100 rich text items and the rest continue as paragraphs nested under the item,
+// or after it when the item is already as deep as one request allows
+function splitListOverflow(items: NotionBlock[], depth = 0): NotionBlock[] {
+  return items.flatMap(block => {
+    const data = blockContent(block);
+    if (data.children) data.children = splitListOverflow(data.children, depth + 1);
+    if (data.rich_text.length <= MAX_RICH_TEXT_ITEMS) return [block];
+
+    const overflow = textBlocks("paragraph", data.rich_text.slice(MAX_RICH_TEXT_ITEMS));
+    data.rich_text = data.rich_text.slice(0, MAX_RICH_TEXT_ITEMS);
+    if (depth < MAX_NESTING) {
+      data.children = [...overflow, ...(data.children ?? [])];
+      return [block];
+    }
+    return [block, ...overflow];
+  });
+}
+
+export function markdownToBlocks(markdown: string): NotionBlock[] {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: NotionBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) body.push(lines[i++]);
+      i++;
+      const content = body.join("\n");
+      blocks.push(...textBlocks("code", toPlainRichText(content), { language: codeLanguage(fence[2]) }));
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      const level = Math.min(heading[1].length, 3);
+      blocks.push(...textBlocks(`heading_${level as 1 | 2 | 3}`, toRichText(heading[2])));
+      i++;
+      continue;
+    }
+
+    if (DIVIDER.test(line)) {
+      blocks.push({ object: "block", type: "divider", divider: {} });
+      i++;
+      continue;
+    }
+
+    const image = line.match(IMAGE);
+    if (image) {
+      blocks.push({
+        object: "block",
+        type: "image",
+        image: { type: "external", external: { url: image[2] }, ...(image[1] && { caption: toRichText(image[1]) }) },
+      });
+      i++;
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitTableRow(line);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].includes("|") && lines[i].trim()) rows.push(splitTableRow(lines[i++]));
+      const width = header.length;
+      const toRow = (cells: string[]) => ({
+        object: "block" as const,
+        type: "table_row" as const,
+        table_row: {
+          cells: Array.from({ length: width }, (_, column) => toRichText(cells[column] ?? "")),
+        },
+      });
+      // A table's rows are its children, so large tables are split and repeat the header
+      const perTable = MAX_CHILDREN_PER_REQUEST - 1;
+      for (let start = 0; start === 0 || start < rows.length; start += perTable) {
+        blocks.push({
+          object: "block",
+          type: "table",
+          table: {
+            table_width: width,
+            has_column_header: true,
+            has_row_header: false,
+            children: [header, ...rows.slice(start, start + perTable)].map(toRow),
+          },
+        });
+      }
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) body.push(lines[i++].match(QUOTE)![1]);
+      blocks.push(...textBlocks("quote", toRichText(body.join("\n"))));
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      // Indentation decides nesting; items deeper than Notion accepts in one request join the deepest level
+      const stack: { indent: number, block: NotionBlock }[] = [];
+      const items: NotionBlock[] = [];
+      while (i < lines.length) {
+        const item = lines[i].match(LIST_ITEM);
+        if (!item) {
+          // An indented line without a marker continues the previous item
+          if (lines[i].trim() && /^\s/.test(lines[i]) && stack.length > 0) {
+            const previous = stack[stack.length - 1].block;
+            blockContent(previous).rich_text.push(...toRichText(` ${lines[i].trim()}`));
+            i++;
+            continue;
+          }
+          break;
+        }
+
+        const indent = indentWidth(item[1]);
+        const block = listItemBlock(item[2], item[3]);
+        while (stack.length > 0 && stack[stack.length - 1].indent >= indent) stack.pop();
+        while (stack.length > MAX_NESTING) stack.pop();
+        if (stack.length === 0) {
+          items.push(block);
+        } else {
+          const parent = stack[stack.length - 1].block;
+          (blockContent(parent).children ??= []).push(block);
+        }
+        stack.push({ indent, block });
+        i++;
+      }
+      blocks.push(...splitListOverflow(items));
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !startsBlock(lines, i))) {
+      paragraph.push(lines[i++].trim());
+    }
+    blocks.push(...textBlocks("paragraph", toRichText(paragraph.join("\n"))));
+  }
+
+  return blocks;
+}
+
+function hasOversizedChildren(block: NotionBlock): boolean {
+  const children = blockContent(block).children;
+  return !!children && (children.length > MAX_CHILDREN_PER_REQUEST || children.some(hasOversizedChildren));
+}
+
+// The block and all blocks nested below it
+function blockCount(block: NotionBlock): number {
+  return 1 + (blockContent(block).children ?? []).reduce((sum, child) => sum + blockCount(child), 0);
+}
+
+function withoutChildren(block: NotionBlock): NotionBlock {
+  const { children, ...data } = blockContent(block);
+  return { ...block, [block.type]: data } as NotionBlock;
+}
+
+// Appends in batches of up to 100 blocks and 1000 blocks including nested ones, keeping order; with after, the
+// blocks are inserted after that block instead of at the end. A block with more than 100 children anywhere below it,
+// or more than 1000 blocks in all, is sent without its children, and they are appended to it afterwards
+export async function appendBlocks(
+  notion: Client,
+  blockId: string,
+  blocks: NotionBlock[],
+  after?: string,
+): Promise<string[]> {
+  const created: string[] = [];
+  let anchor = after;
+  let i = 0;
+  while (i < blocks.length) {
+    const batch: { block: NotionBlock, deferred?: NotionBlock[] }[] = [];
+    let size = 0;
+    while (i < blocks.length && batch.length < MAX_CHILDREN_PER_REQUEST) {
+      const block = blocks[i];
+      const count = blockCount(block);
+      const deferred = hasOversizedChildren(block) || count > MAX_BLOCKS_PER_REQUEST ? blockContent(block).children : undefined;
+      const sent = deferred ? 1 : count;
+      if (batch.length > 0 && size + sent > MAX_BLOCKS_PER_REQUEST) break;
+      batch.push({ block: deferred ? withoutChildren(block) : block, deferred });
+      size += sent;
+      i++;
+    }
+
+    const response = await notion.blocks.children.append({
+      block_id: blockId,
+      children: batch.map(({ block }) => block),
+      ...(anchor && { after: anchor }),
+    });
+    const ids = response.results.map(block => block.id);
+    for (const [index, { deferred }] of batch.entries()) {
+      if (deferred) await appendBlocks(notion, ids[index], deferred);
+    }
+    created.push(...ids);
+    if (anchor) anchor = ids[ids.length - 1];
+  }
+  return created;
+}
@@ -0,0 +1,263 @@
+import { Client, isFullPage } from "@notionhq/client";
+import { BlockNode, BlockResponse, plainText } from "./blocks.js";
+
+type RichTextItem = Extract<BlockResponse, { type: "paragraph" }>["paragraph"]["rich_text"][number];
+
+export interface RenderOptions {
+  // Tag each block with its id in an HTML comment, for use with notion_update_page
+  includeIds: boolean;
+}
+
+// Emphasis markers cannot sit next to whitespace, so leading and trailing spaces stay outside them
+function wrap(text: string, marker: string): string {
+  const match = text.match(/^(\s*)(.*?)(\s*)$/s)!;
+  return match[2] ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : text;
+}
+
+export function renderRichText(items: RichTextItem[]): string {
+  return items.map(item => {
+    if (item.type === "equation") return `$${item.equation.expression}$`;
+    let text = item.plain_text;
+    const { bold, italic, strikethrough, code } = item.annotations;
+    if (code) text = `\`${text}\``;
+    if (bold) text = wrap(text, "**");
+    if (italic) text = wrap(text, "*");
+    if (strikethrough) text = wrap(text, "~~");
+    if (item.href) text = `[${text}](${item.href})`;
+    return text;
+  }).join("");
+}
+
+// File property items may leave out their type, so the URL is found by its field
+function fileUrl(file: { external: { url: string } } | { file: { url: string } }): string {
+  return "external" in file ? file.external.url : file.file.url;
+}
+
+// Pages and databases link to their resources, which notion_read_page and the database tools also accept as IDs
+export function resourceUri(type: "page" | "database", id: string): string {
+  return `notion://${type}/${id}`;
+}
+
+export function escapeTableCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\n/g, "<br>");
+}
+
+function tableCell(cell: RichTextItem[]): string {
+  return escapeTableCell(renderRichText(cell));
+}
+
+function renderTable(rows: BlockNode[], hasColumnHeader: boolean, width: number): string[] {
+  const cells = rows.map(({ block }) => block.type === "table_row" ? block.table_row.cells.map(tableCell) : []);
+  // Markdown tables always have a header row, so a table without one gets an empty header
+  const header = hasColumnHeader && cells.length > 0 ? cells.shift()! : new Array(width).fill("");
+  const line = (row: string[]) => `| ${Array.from({ length: width }, (_, i) => row[i] ?? "").join(" | ")} |`;
+  return [line(header), `|${" --- |".repeat(width)}`, ...cells.map(line)];
+}
+
+function indent(lines: string[], prefix: string): string[] {
+  return lines.map(line => line ? prefix + line : line);
+}
+
+// Nested lists follow their item directly; other content needs a blank line to stay out of the item's text
+function nested(lines: string[], prefix: string): string[] {
+  const startsWithList = lines.length > 0 && /^([-*+]|\d+\.) /.test(lines[0]);
+  return indent(lines.length > 0 && !startsWithList ? ["", ...lines] : lines, prefix);
+}
+
+// Renders one block as Markdown lines, with its children nested below it where Markdown allows
+function renderBlock(node: BlockNode, number: number, options: RenderOptions): string[] {
+  const { block } = node;
+  const tag = options.includeIds ? ` <!-- ${block.id} -->` : "";
+  const children = renderNodes(node.children, options);
+  if (node.childrenOmitted) children.push("*(nested content below the depth limit)*");
+
+  switch (block.type) {
+    case "paragraph":
+      return [renderRichText(block.paragraph.rich_text) + tag, ...(children.length > 0 ? ["", ...indent(children, "  ")] : [])];
+    case "heading_1":
+    case "heading_2":
+    case "heading_3": {
+      const level = Number(block.type.slice(-1));
+      const heading = block.type === "heading_1" ? block.heading_1 :
+        block.type === "heading_2" ? block.heading_2 : block.heading_3;
+      // Toggleable headings keep their content as the following blocks
+      return [`${"#".repeat(level)} ${renderRichText(heading.rich_text)}${tag}`, ...(children.length > 0 ? ["", ...children] : [])];
+    }
+    case "bulleted_list_item":
+      return [`- ${renderRichText(block.bulleted_list_item.rich_text)}${tag}`, ...nested(children, "  ")];
+    case "numbered_list_item": {
+      const marker = `${number}. `;
+      return [marker + renderRichText(block.numbered_list_item.rich_text) + tag, ...nested(children, " ".repeat(marker.length))];
+    }
+    case "to_do":
+      return [`- [${block.to_do.checked ? "x" : " "}] ${renderRichText(block.to_do.rich_text)}${tag}`, ...nested(children, "  ")];
+    case "toggle":
+      return [
+        `<details><summary>${renderRichText(block.toggle.rich_text)}</summary>${tag}`,
+        ...(children.length > 0 ? ["", ...children, ""] : []),
+        "</details>",
+      ];
+    case "quote":
+      return [`> ${renderRichText(block.quote.rich_text)}${tag}`, ...children.map(line => line ? `> ${line}` : ">")];
+    case "callout": {
+      const icon = block.callout.icon?.type === "emoji" ? `${block.callout.icon.emoji} ` : "";
+      return [`> ${icon}${renderRichText(block.callout.rich_text)}${tag}`, ...children.map(line => line ? `> ${line}` : ">")];
+    }
+    case "code": {
+      const caption = renderRichText(block.code.caption);
+      const language = block.code.language === "plain text" ? "" : block.code.language;
+      return [
+        ...(tag ? [tag.trim()] : []),
+        "```" + language,
+        ...plainText(block.code.rich_text).split("\n"),
+        "```",
+        ...(caption ? [`*${caption}*`] : []),
+      ];
+    }
+    case "equation":
+      return [...(tag ? [tag.trim()] : []), "$$", block.equation.expression, "$$"];
+    case "divider":
+      return ["---" + tag];
+    case "table":
+      return [
+        ...(tag ? [tag.trim()] : []),
+        ...renderTable(node.children, block.table.has_column_header, block.table.table_width),
+        ...(node.childrenOmitted ? ["", "*(table rows below the depth limit)*"] : []),
+      ];
+    case "image":
+    case "video":
+    case "pdf":
+    case "file":
+    case "audio": {
+      const media = block.type === "image" ? block.image : block.type === "video" ? block.video :
+        block.type === "pdf" ? block.pdf : block.type === "file" ? block.file : block.audio;
+      const caption = renderRichText(media.caption);
+      return [block.type === "image" ?
+        `![${caption}](${fileUrl(media)})${tag}` :
+        `[${caption || block.type}](${fileUrl(media)})${tag}`];
+    }
+    case "bookmark":
+      return [`[${renderRichText(block.bookmark.caption) || block.bookmark.url}](${block.bookmark.url})${tag}`];
+    case "embed":
+      return [`[embed](${block.embed.url})${tag}`];
+    case "link_preview":
+      return [`[${block.link_preview.url}](${block.link_preview.url})${tag}`];
+    case "child_page":
+      return [`[${block.child_page.title || "Untitled"}](${resourceUri("page", block.id)})${tag}`];
+    case "child_database":
+      return [`[${block.child_database.title || "Untitled"}](${resourceUri("database", block.id)})${tag}`];
+    case "link_to_page": {
+      const link = block.link_to_page;
+      if (link.type === "page_id") return [`[Linked page](${resourceUri("page", link.page_id)})${tag}`];
+      if (link.type === "database_id") return [`[Linked database](${resourceUri("database", link.database_id)})${tag}`];
+      return [];
+    }
+    // Layout and sync containers render as their content
+    case "column_list":
+    case "column":
+    case "synced_block":
+    case "template":
+      return [...(tag ? [tag.trim()] : []), ...children];
+    case "breadcrumb":
+    case "table_of_contents":
+      return [];
+    default:
+      return [`*(unsupported block: ${block.type})*${tag}`];
+  }
+}
+
+// List items of the same kind stay together; everything else is separated by a blank line
+function renderNodes(nodes: BlockNode[], options: RenderOptions): string[] {
+  const lines: string[] = [];
+  let previousType: string | undefined;
+  let number = 0;
+  for (const node of nodes) {
+    const type = node.block.type;
+    number = type === "numbered_list_item" && previousType === type ? number + 1 : 1;
+    const rendered = renderBlock(node, number, options);
+    if (rendered.length === 0) continue;
+    const isListItem = /list_item$|^to_do$/.test(type);
+    if (lines.length > 0 && !(isListItem && previousType === type)) lines.push("");
+    lines.push(...rendered);
+    previousType = type;
+  }
+  return lines;
+}
+
+export function renderBlocks(nodes: BlockNode[], options: RenderOptions): string {
+  return renderNodes(nodes, options).join("\n");
+}
+
+type PageResponse = Extract<Awaited<ReturnType<Client["pages"]["retrieve"]>>, { properties: unknown }>;
+type PagePropertyValue = PageResponse["properties"][string];
+type FormulaValue = Extract<PagePropertyValue, { type: "formula" }>["formula"];
+type RollupValue = Extract<PagePropertyValue, { type: "rollup" }>["rollup"];
+type RollupItem = Extract<RollupValue, { type: "array" }>["array"][number];
+type PropertyValue = PagePropertyValue | FormulaValue | RollupValue | RollupItem;
+
+// Plain text for a page property value, a formula or rollup result, or an array item of a rollup
+export function propertyToText(value: PropertyValue): string {
+  switch (value.type) {
+    case "title":
+      return renderRichText(value.title);
+    case "rich_text":
+      return renderRichText(value.rich_text);
+    case "select":
+      return value.select?.name ?? "";
+    case "status":
+      return value.status?.name ?? "";
+    case "multi_select":
+      return value.multi_select.map(option => option.name).join(", ");
+    case "date":
+      if (!value.date) return "";
+      return value.date.end ? `${value.date.start} → ${value.date.end}` : value.date.start;
+    case "people":
+      return value.people.map(person => ("name" in person && person.name) || person.id).join(", ");
+    case "created_by":
+      return ("name" in value.created_by && value.created_by.name) || value.created_by.id;
+    case "last_edited_by":
+      return ("name" in value.last_edited_by && value.last_edited_by.name) || value.last_edited_by.id;
+    case "relation":
+      return value.relation.map(page => page.id).join(", ");
+    case "files":
+      return value.files.map(file => `[${file.name}](${fileUrl(file)})`).join(", ");
+    case "formula":
+      return propertyToText(value.formula);
+    case "rollup":
+      return propertyToText(value.rollup);
+    case "array":
+      return value.array.map(propertyToText).filter(Boolean).join(", ");
+    case "unique_id":
+      if (value.unique_id.number === null) return "";
+      return value.unique_id.prefix ? `${value.unique_id.prefix}-${value.unique_id.number}` : String(value.unique_id.number);
+    case "verification":
+      return value.verification?.state ?? "";
+    default: {
+      const data = (value as Record<string, unknown>)[value.type];
+      if (data === null || data === undefined) return "";
+      return typeof data === "object" ? JSON.stringify(data) : String(data);
+    }
+  }
+}
+
+// Title, properties and body of a page as one Markdown document
+export async function renderPage(
+  notion: Client,
+  pageId: string,
+  nodes: BlockNode[],
+  options: RenderOptions,
+): Promise<string> {
+  const page = await notion.pages.retrieve({ page_id: pageId });
+  if (!isFullPage(page)) throw new Error(`Page not found: ${pageId}`);
+
+  const properties = Object.entries(page.properties);
+  const titleProperty = properties.find(([, value]) => value.type === "title");
+  const title = titleProperty ? propertyToText(titleProperty[1]) : "";
+  const lines = [`# ${title || "Untitled"}${options.includeIds ? ` <!-- ${page.id} -->` : ""}`, ""];
+
+  const others = properties.filter(([, value]) => value.type !== "title");
+  if (others.length > 0) {
+    lines.push(...others.map(([name, value]) => `- **${name}**: ${propertyToText(value)}`), "", "---", "");
+  }
+  return [...lines, renderBlocks(nodes, options)].join("\n").trimEnd() + "\n";
+}
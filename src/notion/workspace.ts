@@ -0,0 +1,91 @@
+import { Client, isFullPage, isFullPageOrDatabase } from "@notionhq/client";
+import { getDatabaseSchema, titlePropertyName } from "./database.js";
+import { escapeTableCell, propertyToText, resourceUri } from "./render.js";
+
+export type ObjectType = "page" | "database";
+
+export const OBJECT_TYPES: ObjectType[] = ["page", "database"];
+
+export interface SearchOptions {
+  query?: string;
+  type?: ObjectType;
+  pageSize: number;
+  startCursor?: string;
+}
+
+export interface SearchEntry {
+  type: ObjectType;
+  id: string;
+  title: string;
+  url: string;
+  uri: string;
+  lastEditedTime: string;
+}
+
+// Only pages and databases shared with the integration are found
+export async function searchWorkspace(notion: Client, options: SearchOptions) {
+  const response = await notion.search({
+    ...(options.query && { query: options.query }),
+    ...(options.type && { filter: { property: "object", value: options.type } }),
+    // Searches are ordered by relevance; listings by recent edits
+    ...(!options.query && { sort: { timestamp: "last_edited_time", direction: "descending" } }),
+    page_size: options.pageSize,
+    ...(options.startCursor && { start_cursor: options.startCursor }),
+  });
+
+  const results: SearchEntry[] = response.results.filter(isFullPageOrDatabase).map(result => {
+    const title = result.object === "database" ?
+      result.title.map(item => item.plain_text).join("") :
+      Object.values(result.properties).map(value => value.type === "title" ? propertyToText(value) : "").join("");
+    return {
+      type: result.object,
+      id: result.id,
+      title: title || "Untitled",
+      url: result.url,
+      uri: resourceUri(result.object, result.id),
+      lastEditedTime: result.last_edited_time,
+    };
+  });
+  return { results, nextCursor: response.next_cursor };
+}
+
+export function parseResourceUri(uri: string): { type: ObjectType, id: string } {
+  const match = uri.match(/^notion:\/\/(page|database)\/([0-9a-f-]+)$/i);
+  if (!match) throw new Error(`Unknown resource: ${uri}`);
+  return { type: match[1].toLowerCase() as ObjectType, id: match[2] };
+}
+
+// The database's properties followed by a table of its first entries
+export async function renderDatabase(notion: Client, databaseId: string, maxEntries = 100): Promise<string> {
+  const schema = await getDatabaseSchema(notion, databaseId);
+  const titleName = titlePropertyName(schema);
+  const names = [titleName, ...Object.keys(schema.properties).filter(name => name !== titleName)];
+
+  const response = await notion.databases.query({ database_id: schema.id, page_size: maxEntries });
+  const rows = response.results.filter(isFullPage).map(entry => names.map(name => {
+    const value = entry.properties[name];
+    const text = value ? escapeTableCell(propertyToText(value)) : "";
+    return name === titleName ? `[${text || "Untitled"}](${resourceUri("page", entry.id)})` : text;
+  }));
+
+  const lines = [
+    `# ${schema.title || "Untitled"}`,
+    "",
+    "## Properties",
+    "",
+    ...Object.values(schema.properties).map(property => `- **${property.name}**: ${property.type}`),
+    "",
+    "## Entries",
+    "",
+  ];
+  if (rows.length === 0) {
+    lines.push("*(no entries)*");
+  } else {
+    const line = (cells: string[]) => `| ${cells.join(" | ")} |`;
+    lines.push(line(names.map(escapeTableCell)), `|${" --- |".repeat(names.length)}`, ...rows.map(line));
+  }
+  if (response.has_more) {
+    lines.push("", `*(only the first ${rows.length} entries are shown; use notion_query_database for the rest)*`);
+  }
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,173 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+export interface ArtifactStoreOptions {
+  dir: string;
+  // Limits across all artifacts and logs; the least recently written are evicted first
+  maxBytes: number;
+  maxCount: number;
+  // A single session's console log is trimmed to its newer half beyond this size
+  maxLogBytes: number;
+}
+
+export interface ArtifactRecord {
+  name: string;
+  sessionId: string;
+  mimeType: string;
+  file: string;
+  size: number;
+  createdAt: number;
+}
+
+interface LogRecord {
+  file: string;
+  size: number;
+  updatedAt: number;
+}
+
+const MANIFEST_FILE = "manifest.json";
+const LOG_FILE = "console.jsonl";
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": ".png",
+  "image/jpeg": ".jpg",
+  "image/webp": ".webp",
+  "application/pdf": ".pdf",
+};
+
+function safeSegment(value: string): string {
+  return encodeURIComponent(value).replace(/\./g, "%2E");
+}
+
+export class ArtifactStore {
+  private artifacts = new Map<string, ArtifactRecord>();
+  private logs = new Map<string, LogRecord>();
+  // Operations run one at a time so the manifest and eviction never see half-written state
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private options: ArtifactStoreOptions) {}
+
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => {});
+    return result;
+  }
+
+  async init() {
+    await fs.mkdir(this.options.dir, { recursive: true });
+
+    try {
+      const manifest = JSON.parse(await fs.readFile(path.join(this.options.dir, MANIFEST_FILE), "utf8"));
+      for (const record of manifest.artifacts as ArtifactRecord[]) {
+        // Skip entries whose files were removed by hand
+        const stat = await fs.stat(path.join(this.options.dir, record.file)).catch(() => null);
+        if (stat) this.artifacts.set(record.name, record);
+      }
+    } catch (error) {
+      // No manifest yet: start empty
+    }
+
+    const entries = await fs.readdir(this.options.dir, { withFileTypes: true });
+    for (const entry of entries.filter(entry => entry.isDirectory())) {
+      const file = path.join(entry.name, LOG_FILE);
+      const stat = await fs.stat(path.join(this.options.dir, file)).catch(() => null);
+      if (stat) {
+        this.logs.set(decodeURIComponent(entry.name), { file, size: stat.size, updatedAt: stat.mtimeMs });
+      }
+    }
+  }
+
+  private async saveManifest() {
+    const manifest = { artifacts: Array.from(this.artifacts.values()) };
+    await fs.writeFile(path.join(this.options.dir, MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+  }
+
+  private async enforceRetention() {
+    const candidates = [
+      ...Array.from(this.artifacts.values()).map(record => ({
+        time: record.createdAt,
+        size: record.size,
+        evict: () => this.artifacts.delete(record.name),
+        file: record.file,
+      })),
+      ...Array.from(this.logs.entries()).map(([sessionId, record]) => ({
+        time: record.updatedAt,
+        size: record.size,
+        evict: () => this.logs.delete(sessionId),
+        file: record.file,
+      })),
+    ].sort((a, b) => a.time - b.time);
+
+    let totalBytes = candidates.reduce((sum, candidate) => sum + candidate.size, 0);
+    let count = candidates.length;
+    // Always keep the newest item, even if it alone is over the byte limit
+    for (const candidate of candidates.slice(0, -1)) {
+      if (totalBytes <= this.options.maxBytes && count <= this.options.maxCount) break;
+      candidate.evict();
+      await fs.rm(path.join(this.options.dir, candidate.file), { force: true });
+      totalBytes -= candidate.size;
+      count--;
+    }
+  }
+
+  put(name: string, sessionId: string, mimeType: string, data: Buffer): Promise<ArtifactRecord> {
+    return this.enqueue(async () => {
+      const previous = this.artifacts.get(name);
+      if (previous) await fs.rm(path.join(this.options.dir, previous.file), { force: true });
+
+      const file = path.join(safeSegment(sessionId), `${safeSegment(name)}${EXTENSIONS[mimeType] ?? ""}`);
+      await fs.mkdir(path.join(this.options.dir, path.dirname(file)), { recursive: true });
+      await fs.writeFile(path.join(this.options.dir, file), data);
+
+      const record = { name, sessionId, mimeType, file, size: data.length, createdAt: Date.now() };
+      this.artifacts.set(name, record);
+      await this.enforceRetention();
+      await this.saveManifest();
+      return record;
+    });
+  }
+
+  async get(name: string): Promise<{ record: ArtifactRecord, data: Buffer } | undefined> {
+    const record = this.artifacts.get(name);
+    if (!record) return undefined;
+    const data = await fs.readFile(path.join(this.options.dir, record.file)).catch(() => null);
+    return data ? { record, data } : undefined;
+  }
+
+  list(): ArtifactRecord[] {
+    return Array.from(this.artifacts.values()).sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  appendLog(sessionId: string, line: string): Promise<void> {
+    return this.enqueue(async () => {
+      const file = path.join(safeSegment(sessionId), LOG_FILE);
+      const fullPath = path.join(this.options.dir, file);
+      await fs.mkdir(path.dirname(fullPath), { recursive: true });
+      await fs.appendFile(fullPath, `${line}\n`);
+
+      const record = this.logs.get(sessionId) ?? { file, size: 0, updatedAt: 0 };
+      record.size += Buffer.byteLength(line) + 1;
+      record.updatedAt = Date.now();
+      this.logs.set(sessionId, record);
+
+      if (record.size > this.options.maxLogBytes) {
+        const content = await fs.readFile(fullPath, "utf8");
+        const kept = content.slice(content.indexOf("\n", content.length / 2) + 1);
+        await fs.writeFile(fullPath, kept);
+        record.size = Buffer.byteLength(kept);
+      }
+      await this.enforceRetention();
+    });
+  }
+
+  logSessions(): string[] {
+    return Array.from(this.logs.keys());
+  }
+
+  async readLog(sessionId: string): Promise<string[]> {
+    const record = this.logs.get(sessionId);
+    if (!record) return [];
+    const content = await fs.readFile(path.join(this.options.dir, record.file), "utf8").catch(() => "");
+    return content.split("\n").filter(Boolean);
+  }
+}
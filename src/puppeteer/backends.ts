@@ -0,0 +1,111 @@
+import puppeteer, { Browser, Page } from "puppeteer-core";
+
+export type BackendConfig =
+  | { type: "browserbase"; apiKey: string }
+  | { type: "cdp"; browserWSEndpoint?: string; browserURL?: string }
+  | { type: "local"; executablePath: string; headless: boolean; args: string[] };
+
+// A browser and page owned by one session, plus how to give them back
+export interface BrowserHandle {
+  browser: Browser;
+  page: Page;
+  release: () => Promise<void>;
+}
+
+export interface BrowserBackend {
+  name: string;
+  open(): Promise<BrowserHandle>;
+}
+
+export function loadBackendConfig(env: NodeJS.ProcessEnv): BackendConfig {
+  const type = env.BROWSER_BACKEND || "browserbase";
+
+  switch (type) {
+    case "browserbase":
+      if (!env.BROWSERBASE_API_KEY) {
+        throw new Error("BROWSERBASE_API_KEY environment variable is required for the browserbase backend");
+      }
+      if (!env.BROWSERBASE_PROJECT_ID) {
+        throw new Error("BROWSERBASE_PROJECT_ID environment variable is required for the browserbase backend");
+      }
+      return { type, apiKey: env.BROWSERBASE_API_KEY };
+
+    case "cdp":
+      if (!env.BROWSER_WS_ENDPOINT && !env.BROWSER_URL) {
+        throw new Error("BROWSER_WS_ENDPOINT or BROWSER_URL environment variable is required for the cdp backend");
+      }
+      return {
+        type,
+        browserWSEndpoint: env.BROWSER_WS_ENDPOINT || undefined,
+        browserURL: env.BROWSER_URL || undefined,
+      };
+
+    case "local":
+      if (!env.CHROME_EXECUTABLE_PATH) {
+        throw new Error("CHROME_EXECUTABLE_PATH environment variable is required for the local backend");
+      }
+      return {
+        type,
+        executablePath: env.CHROME_EXECUTABLE_PATH,
+        headless: env.BROWSER_HEADLESS !== "false",
+        args: env.BROWSER_ARGS ? env.BROWSER_ARGS.split(" ").filter(Boolean) : [],
+      };
+
+    default:
+      throw new Error(`Unknown BROWSER_BACKEND: ${type} (expected browserbase, cdp or local)`);
+  }
+}
+
+export function createBackend(config: BackendConfig): BrowserBackend {
+  switch (config.type) {
+    case "browserbase":
+      return {
+        name: "browserbase",
+        async open() {
+          // Every connection starts a fresh cloud browser, which ends when it is closed
+          const browser = await puppeteer.connect({
+            browserWSEndpoint: `wss://connect.browserbase.com?apiKey=${config.apiKey}`,
+          });
+          const page = (await browser.pages())[0] ?? await browser.newPage();
+          return { browser, page, release: () => browser.close() };
+        },
+      };
+
+    case "cdp":
+      return {
+        name: "cdp",
+        async open() {
+          // The target browser is shared, so isolate each session in its own context
+          // and leave the browser itself running on release
+          const browser = await puppeteer.connect({
+            browserWSEndpoint: config.browserWSEndpoint,
+            browserURL: config.browserWSEndpoint ? undefined : config.browserURL,
+          });
+          const context = await browser.createBrowserContext();
+          const page = await context.newPage();
+          return {
+            browser,
+            page,
+            release: async () => {
+              await context.close();
+              await browser.disconnect();
+            },
+          };
+        },
+      };
+
+    case "local":
+      return {
+        name: "local",
+        async open() {
+          const browser = await puppeteer.launch({
+            executablePath: config.executablePath,
+            headless: config.headless,
+            args: config.args,
+          });
+          const page = (await browser.pages())[0] ?? await browser.newPage();
+          return { browser, page, release: () => browser.close() };
+        },
+      };
+  }
+}
@@ -0,0 +1,216 @@
+export type ContentMode = "text" | "article" | "markdown";
+
+export const CONTENT_MODES: ContentMode[] = ["text", "article", "markdown"];
+
+export const DEFAULT_MAX_LENGTH = 20000;
+
+// The visible text of the page, or of the element matching selector, as plain text, the main article or Markdown.
+// page.evaluate sends only this function's source to the browser, so the tag sets and helpers are declared inside it
+export function extractContent(mode: ContentMode, selector?: string): string {
+  const SKIP_TAGS = new Set([
+    "script", "style", "noscript", "template", "svg", "canvas", "iframe", "object", "head", "meta", "link",
+  ]);
+  // Page chrome dropped when looking for the main article
+  const BOILERPLATE_TAGS = new Set(["nav", "header", "footer", "aside", "form", "dialog"]);
+  const BLOCK_TAGS = new Set([
+    "address", "article", "details", "div", "dl", "dd", "dt", "fieldset", "figcaption", "figure", "footer",
+    "form", "header", "main", "nav", "section", "aside", "summary",
+  ]);
+
+  function isHidden(el: Element): boolean {
+    if ((el as HTMLElement).hidden || el.getAttribute("aria-hidden") === "true") return true;
+    const style = getComputedStyle(el);
+    return style.display === "none" || style.visibility === "hidden";
+  }
+
+  function visibleText(root: Element): string {
+    const lines = ((root as HTMLElement).innerText ?? root.textContent ?? "")
+      .split("\n")
+      .map(line => line.replace(/\s+/g, " ").trim())
+      .filter(Boolean);
+    // innerText already skips hidden nodes; drop the runs of identical lines that menus and widgets repeat
+    return lines.filter((line, i) => line !== lines[i - 1]).join("\n");
+  }
+
+  function findMainContent(scope: Element): Element {
+    const landmarks = Array.from(scope.querySelectorAll("article, main, [role='main']"));
+    if (landmarks.length > 0) {
+      return landmarks.reduce((best, el) =>
+        (el.textContent ?? "").length > (best.textContent ?? "").length ? el : best);
+    }
+
+    // Readability-style scoring: paragraphs vote for their parent and, at half weight, grandparent
+    const scores = new Map<Element, number>();
+    for (const p of Array.from(scope.querySelectorAll("p, pre, td"))) {
+      const length = (p.textContent ?? "").trim().length;
+      if (length < 25) continue;
+      const points = 1 + Math.min(length / 100, 3);
+      const parent = p.parentElement;
+      if (parent) scores.set(parent, (scores.get(parent) ?? 0) + points);
+      const grandparent = parent?.parentElement;
+      if (grandparent) scores.set(grandparent, (scores.get(grandparent) ?? 0) + points / 2);
+    }
+
+    let best: Element = scope;
+    let bestScore = 0;
+    for (const [el, score] of Array.from(scores.entries())) {
+      const textLength = (el.textContent ?? "").length || 1;
+      const linkLength = Array.from(el.querySelectorAll("a"))
+        .reduce((sum, a) => sum + (a.textContent ?? "").length, 0);
+      const adjusted = score * (1 - linkLength / textLength);
+      if (adjusted > bestScore) {
+        best = el;
+        bestScore = adjusted;
+      }
+    }
+    return best;
+  }
+
+  function toMarkdown(root: Element, skipBoilerplate: boolean): string {
+    function children(el: Element, depth: number): string {
+      return Array.from(el.childNodes).map(child => convert(child, depth)).join("");
+    }
+
+    function wrap(marker: string, text: string): string {
+      const trimmed = text.trim();
+      return trimmed ? `${marker}${trimmed}${marker}` : "";
+    }
+
+    function list(el: Element, depth: number): string {
+      const ordered = el.localName === "ol";
+      let index = Number(el.getAttribute("start") ?? 1);
+      const indent = "  ".repeat(depth);
+      const items = Array.from(el.children)
+        .filter(child => child.localName === "li" && !isHidden(child))
+        .map(li => {
+          const marker = ordered ? `${index++}.` : "-";
+          const [first, ...rest] = children(li, depth + 1).trim().replace(/\n{2,}/g, "\n").split("\n");
+          return [`${indent}${marker} ${first}`, ...rest.map(line => line.startsWith(indent + "  ") ? line : `${indent}  ${line}`)]
+            .join("\n");
+        });
+      return `\n\n${items.join("\n")}\n\n`;
+    }
+
+    function table(el: HTMLTableElement): string {
+      const rows = Array.from(el.rows)
+        .map(row => Array.from(row.cells)
+          .map(cell => children(cell, 0).replace(/\s+/g, " ").replace(/\|/g, "\\|").trim()));
+      if (rows.length === 0) return "";
+
+      const width = Math.max(...rows.map(row => row.length));
+      const line = (row: string[]) =>
+        `| ${row.concat(Array(width - row.length).fill("")).join(" | ")} |`;
+      const [header, ...body] = rows;
+      return `\n\n${[line(header), line(Array(width).fill("---")), ...body.map(line)].join("\n")}\n\n`;
+    }
+
+    function convert(node: Node, depth: number): string {
+      if (node.nodeType === Node.TEXT_NODE) return (node.textContent ?? "").replace(/\s+/g, " ");
+      if (node.nodeType !== Node.ELEMENT_NODE) return "";
+
+      const el = node as Element;
+      const tag = el.localName;
+      if (SKIP_TAGS.has(tag) || isHidden(el)) return "";
+      if (skipBoilerplate && BOILERPLATE_TAGS.has(tag)) return "";
+
+      switch (tag) {
+        case "h1": case "h2": case "h3": case "h4": case "h5": case "h6": {
+          const text = children(el, depth).replace(/\s+/g, " ").trim();
+          return text ? `\n\n${"#".repeat(Number(tag[1]))} ${text}\n\n` : "";
+        }
+        case "p":
+          return `\n\n${children(el, depth).trim()}\n\n`;
+        case "br":
+          return "\n";
+        case "hr":
+          return "\n\n---\n\n";
+        case "strong": case "b":
+          return wrap("**", children(el, depth));
+        case "em": case "i":
+          return wrap("_", children(el, depth));
+        case "del": case "s":
+          return wrap("~~", children(el, depth));
+        case "code":
+          return wrap("`", el.textContent ?? "");
+        case "pre": {
+          const language = el.querySelector("code")?.className.match(/language-(\S+)/)?.[1] ?? "";
+          return `\n\n\`\`\`${language}\n${(el.textContent ?? "").replace(/\n$/, "")}\n\`\`\`\n\n`;
+        }
+        case "a": {
+          const text = children(el, depth).trim();
+          const href = (el as HTMLAnchorElement).href;
+          if (!text) return "";
+          return href && !href.startsWith("javascript:") ? `[${text}](${href})` : text;
+        }
+        case "img": {
+          const alt = el.getAttribute("alt");
+          return alt ? `![${alt}](${(el as HTMLImageElement).src})` : "";
+        }
+        case "ul": case "ol":
+          return list(el, depth);
+        case "blockquote":
+          return `\n\n${children(el, depth).trim().split("\n").map(line => `> ${line}`).join("\n")}\n\n`;
+        case "table":
+          return table(el as HTMLTableElement);
+        default:
+          return BLOCK_TAGS.has(tag) ? `\n\n${children(el, depth)}\n\n` : children(el, depth);
+      }
+    }
+
+    // Tidy whitespace outside code fences, keeping the indentation of nested list items
+    let inFence = false;
+    return convert(root, 0)
+      .split("\n")
+      .map(line => {
+        if (line.startsWith("```")) inFence = !inFence;
+        if (inFence || line.startsWith("```")) return line;
+        return /^\s+(-|\d+\.) /.test(line) ? line.trimEnd() : line.trim();
+      })
+      .join("\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+  }
+
+  const matches = selector ? Array.from(document.querySelectorAll(selector)) : [document.body];
+  // Nested matches would repeat their text inside their ancestors
+  const roots = matches.filter(el => !matches.some(other => other !== el && other.contains(el)));
+
+  return roots
+    .map(root => {
+      switch (mode) {
+        case "article":
+          return toMarkdown(findMainContent(root), true);
+        case "markdown":
+          return toMarkdown(root, false);
+        default:
+          return visibleText(root);
+      }
+    })
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+export function validatePagination(startIndex: number, maxLength: number) {
+  if (!Number.isInteger(startIndex) || startIndex < 0) {
+    throw new Error(`startIndex must be a non-negative integer, got ${startIndex}`);
+  }
+  if (!Number.isInteger(maxLength) || maxLength < 1) {
+    throw new Error(`maxLength must be a positive integer, got ${maxLength}`);
+  }
+}
+
+export function paginateContent(content: string, startIndex: number, maxLength: number): string {
+  validatePagination(startIndex, maxLength);
+  if (startIndex >= content.length && content.length > 0) {
+    return `No more content: startIndex ${startIndex} is past the end (${content.length} characters)`;
+  }
+
+  const end = Math.min(startIndex + maxLength, content.length);
+  const slice = content.slice(startIndex, end);
+  if (startIndex === 0 && end === content.length) return slice;
+
+  const remaining = end < content.length ?
+    `\n\n[Content truncated. Call again with startIndex=${end} to continue]` :
+    "";
+  return `[Characters ${startIndex}-${end} of ${content.length}]\n${slice}${remaining}`;
+}
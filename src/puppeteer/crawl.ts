@@ -0,0 +1,183 @@
+import { Page } from "puppeteer-core";
+import { ContentMode, extractContent } from "./content.js";
+
+export const ROBOTS_USER_AGENT = "mcp-server-puppeteer";
+
+export interface CrawlOptions {
+  url: string;
+  maxDepth: number;
+  maxPages: number;
+  // Links are followed only below this path on the start URL's origin
+  pathPrefix: string;
+  respectRobots: boolean;
+  mode: ContentMode;
+  maxLength: number;
+  timeout: number;
+}
+
+export interface CrawledPage {
+  url: string;
+  depth: number;
+  status?: number | null;
+  title?: string;
+  content?: string;
+  truncated?: boolean;
+  error?: string;
+}
+
+const TRACKING_PARAMS = /^(utm_\w+|gclid|fbclid|mc_cid|mc_eid)$/;
+
+// Fragments, parameter order and tracking parameters do not change the page
+export function normalizeUrl(url: string): string | undefined {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch (error) {
+    return undefined;
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return undefined;
+  parsed.hash = "";
+  const params = Array.from(parsed.searchParams.entries())
+    .filter(([name]) => !TRACKING_PARAMS.test(name))
+    .sort(([a], [b]) => a.localeCompare(b));
+  parsed.search = new URLSearchParams(params).toString();
+  return parsed.href;
+}
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: RegExp;
+  length: number;
+}
+
+// Rules from the group for our user agent, falling back to the * group
+export function parseRobots(text: string, userAgent = ROBOTS_USER_AGENT): RobotsRule[] {
+  const groups: { agents: string[], rules: RobotsRule[] }[] = [];
+  let current: { agents: string[], rules: RobotsRule[] } | undefined;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === "user-agent") {
+      // Consecutive User-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+    } else if ((field === "allow" || field === "disallow") && current) {
+      lastWasAgent = false;
+      // An empty Disallow allows everything
+      if (!value) continue;
+      // * matches any run of characters and a trailing $ anchors the end
+      const anchored = value.endsWith("$");
+      const body = (anchored ? value.slice(0, -1) : value)
+        .split("*")
+        .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+        .join(".*");
+      current.rules.push({
+        allow: field === "allow",
+        pattern: new RegExp(`^${body}${anchored ? "$" : ""}`),
+        length: value.length,
+      });
+    } else {
+      lastWasAgent = false;
+    }
+  }
+
+  const agent = userAgent.toLowerCase();
+  const group = groups.find(g => g.agents.some(a => a !== "*" && agent.includes(a))) ??
+    groups.find(g => g.agents.includes("*"));
+  return group?.rules ?? [];
+}
+
+// The longest matching rule wins, and Allow wins a tie
+export function isAllowedByRobots(rules: RobotsRule[], url: string): boolean {
+  const { pathname, search } = new URL(url);
+  const target = pathname + search;
+  let best: RobotsRule | undefined;
+  for (const rule of rules) {
+    if (!rule.pattern.test(target)) continue;
+    if (!best || rule.length > best.length || (rule.length === best.length && rule.allow)) best = rule;
+  }
+  return best?.allow ?? true;
+}
+
+async function fetchRobots(origin: string, timeout: number): Promise<RobotsRule[]> {
+  try {
+    const response = await fetch(`${origin}/robots.txt`, {
+      headers: { "User-Agent": ROBOTS_USER_AGENT },
+      signal: AbortSignal.timeout(timeout),
+    });
+    // A missing robots.txt allows everything
+    if (!response.ok) return [];
+    return parseRobots(await response.text());
+  } catch (error) {
+    return [];
+  }
+}
+
+// Breadth-first from options.url in the given page, so every page is loaded the same way as puppeteer_navigate
+export async function crawl(page: Page, options: CrawlOptions, onPage?: (result: CrawledPage, visited: number) => void) {
+  const start = normalizeUrl(options.url);
+  if (!start) throw new Error(`Invalid start URL: ${options.url} (expected http or https)`);
+  const origin = new URL(start).origin;
+  const inScope = (url: string) => {
+    const parsed = new URL(url);
+    return parsed.origin === origin && parsed.pathname.startsWith(options.pathPrefix);
+  };
+
+  const robots = options.respectRobots ? await fetchRobots(origin, options.timeout) : [];
+  const seen = new Set<string>([start]);
+  const queue: { url: string, depth: number }[] = [{ url: start, depth: 0 }];
+  const pages: CrawledPage[] = [];
+  let blockedByRobots = 0;
+
+  while (queue.length > 0 && pages.length < options.maxPages) {
+    const { url, depth } = queue.shift()!;
+    if (!isAllowedByRobots(robots, url)) {
+      blockedByRobots++;
+      continue;
+    }
+
+    let result: CrawledPage;
+    let links: string[] = [];
+    try {
+      const response = await page.goto(url, { timeout: options.timeout });
+      const content = await page.evaluate(extractContent, options.mode, undefined);
+      result = {
+        url: page.url(),
+        depth,
+        status: response?.status() ?? null,
+        title: await page.title(),
+        content: content.slice(0, options.maxLength),
+        ...(content.length > options.maxLength && { truncated: true }),
+      };
+      // Redirects can land on a URL that is also linked elsewhere
+      const landed = normalizeUrl(page.url());
+      if (landed) seen.add(landed);
+      if (depth < options.maxDepth) {
+        links = await page.$$eval("a[href]", anchors => anchors.map(a => (a as HTMLAnchorElement).href));
+      }
+    } catch (error) {
+      result = { url, depth, error: (error as Error).message };
+    }
+    pages.push(result);
+    onPage?.(result, pages.length);
+
+    for (const link of links) {
+      const normalized = normalizeUrl(link);
+      if (!normalized || seen.has(normalized) || !inScope(normalized)) continue;
+      seen.add(normalized);
+      queue.push({ url: normalized, depth: depth + 1 });
+    }
+  }
+
+  return { pages, blockedByRobots, unvisited: queue.length };
+}
@@ -0,0 +1,224 @@
+// Where a field's value comes from, relative to the page or the current container
+export interface FieldRule {
+  selector?: string;
+  xpath?: string;
+  // Read this attribute instead of the text; href and src are resolved to absolute URLs
+  attribute?: string;
+  // Keep only the part of the value matching this regex (its first capture group if it has one)
+  pattern?: string;
+  // Rules for an object-typed field, relative to each matched element
+  fields?: Record<string, FieldRule>;
+}
+
+export interface JsonSchema {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  minItems?: number;
+}
+
+export interface FieldError {
+  path: string;
+  message: string;
+}
+
+export type RawValue = string | RawRecord;
+export interface RawRecord {
+  [field: string]: RawValue[];
+}
+
+// Collects each field's matches per record, inside the browser, where the module's other exports are out of reach.
+// Returns every matched value as a string (or nested record); typing and validation happen in Node
+export function collectFields(
+  fields: Record<string, FieldRule>,
+  container: FieldRule | null,
+  limit: number | null,
+): RawRecord[] {
+  function matchNodes(root: Node, rule: FieldRule): Node[] {
+    if (rule.xpath) {
+      const result = document.evaluate(rule.xpath, root, null, XPathResult.ORDERED_NODE_SNAPSHOT_TYPE, null);
+      const nodes: Node[] = [];
+      for (let i = 0; i < result.snapshotLength; i++) nodes.push(result.snapshotItem(i)!);
+      return nodes;
+    }
+    if (rule.selector) {
+      return Array.from((root as Element | Document).querySelectorAll(rule.selector));
+    }
+    // No selector reads the root itself, e.g. an attribute of the container
+    return [root];
+  }
+
+  function valueOf(node: Node, rule: FieldRule): string | null {
+    if (!(node instanceof Element)) return (node.nodeValue ?? node.textContent ?? "").replace(/\s+/g, " ").trim();
+    if (rule.attribute) {
+      const value = node.getAttribute(rule.attribute);
+      if (value === null) return null;
+      if (rule.attribute === "href" || rule.attribute === "src") {
+        try {
+          return new URL(value, document.baseURI).href;
+        } catch (error) {
+          return value;
+        }
+      }
+      return value;
+    }
+    return ((node as HTMLElement).innerText ?? node.textContent ?? "").replace(/\s+/g, " ").trim();
+  }
+
+  function applyPattern(value: string, rule: FieldRule): string | null {
+    if (!rule.pattern) return value;
+    const match = value.match(new RegExp(rule.pattern));
+    return match ? match[1] ?? match[0] : null;
+  }
+
+  function collect(root: Node, rules: Record<string, FieldRule>): RawRecord {
+    const record: RawRecord = {};
+    for (const [name, rule] of Object.entries(rules)) {
+      record[name] = matchNodes(root, rule).flatMap((node): RawValue[] => {
+        if (rule.fields) return [collect(node, rule.fields)];
+        const value = valueOf(node, rule);
+        const kept = value === null ? null : applyPattern(value, rule);
+        return kept === null ? [] : [kept];
+      });
+    }
+    return record;
+  }
+
+  const roots = container ? matchNodes(document, container) : [document];
+  return roots.slice(0, limit ?? roots.length).map(root => collect(root, fields));
+}
+
+function primaryType(schema: JsonSchema): string | undefined {
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  return types.find(type => type !== undefined && type !== "null");
+}
+
+const TRUE_VALUES = /^(true|yes|y|on|1|checked|selected)$/i;
+const FALSE_VALUES = /^(false|no|n|off|0|)$/i;
+
+function coerceValue(schema: JsonSchema, rule: FieldRule, raw: RawValue, path: string, errors: FieldError[]): unknown {
+  const type = primaryType(schema);
+  let value: unknown;
+
+  if (typeof raw !== "string") {
+    if (type !== "object") {
+      errors.push({ path, message: `Expected ${type}, but the rule has nested fields` });
+      return null;
+    }
+    return buildObject(schema, rule.fields ?? {}, raw, path, errors);
+  }
+
+  switch (type) {
+    case "object":
+      errors.push({ path, message: "Object fields need nested fields rules" });
+      return null;
+    case "number":
+    case "integer": {
+      // Takes the first number, ignoring currency symbols, units and thousands separators: "$1,299.00" -> 1299
+      const match = raw.replace(/(\d),(?=\d{3}\b)/g, "$1").match(/-?\d+(\.\d+)?/);
+      value = match ? Number(match[0]) : NaN;
+      if (Number.isNaN(value)) {
+        errors.push({ path, message: `Expected a number, got ${JSON.stringify(raw)}` });
+        return null;
+      }
+      if (type === "integer" && !Number.isInteger(value)) {
+        errors.push({ path, message: `Expected an integer, got ${JSON.stringify(raw)}` });
+        return null;
+      }
+      break;
+    }
+    case "boolean":
+      if (TRUE_VALUES.test(raw)) value = true;
+      else if (FALSE_VALUES.test(raw)) value = false;
+      else {
+        errors.push({ path, message: `Expected a boolean, got ${JSON.stringify(raw)}` });
+        return null;
+      }
+      break;
+    default:
+      value = raw;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push({ path, message: `${JSON.stringify(value)} is not one of ${JSON.stringify(schema.enum)}` });
+    return null;
+  }
+  return value;
+}
+
+function buildObject(
+  schema: JsonSchema,
+  rules: Record<string, FieldRule>,
+  record: RawRecord,
+  path: string,
+  errors: FieldError[],
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  const required = new Set(schema.required ?? []);
+
+  for (const [name, propertySchema] of Object.entries(schema.properties ?? {})) {
+    const fieldPath = path ? `${path}.${name}` : name;
+    const rule = rules[name];
+    if (!rule) {
+      errors.push({ path: fieldPath, message: "No extraction rule for this field" });
+      result[name] = null;
+      continue;
+    }
+
+    const values = record[name] ?? [];
+    if (primaryType(propertySchema) === "array") {
+      result[name] = values
+        .map((raw, i) => coerceValue(propertySchema.items ?? {}, rule, raw, `${fieldPath}[${i}]`, errors))
+        .filter(value => value !== null);
+      if (propertySchema.minItems !== undefined && values.length < propertySchema.minItems) {
+        errors.push({ path: fieldPath, message: `Expected at least ${propertySchema.minItems} items, found ${values.length}` });
+      }
+    } else if (values.length === 0) {
+      if (required.has(name)) errors.push({ path: fieldPath, message: "Required field not found" });
+      result[name] = null;
+    } else {
+      result[name] = coerceValue(propertySchema, rule, values[0], fieldPath, errors);
+    }
+  }
+  return result;
+}
+
+export function validateExtractArgs(schema: JsonSchema, fields: Record<string, FieldRule>, container?: FieldRule) {
+  if (!schema || typeof schema !== "object") throw new Error("schema must be a JSON Schema object");
+  if (!fields || typeof fields !== "object") throw new Error("fields must map field names to extraction rules");
+
+  const checkRules = (rules: Record<string, FieldRule>, path: string) => {
+    for (const [name, rule] of Object.entries(rules)) {
+      if (rule.selector && rule.xpath) throw new Error(`${path}${name}: use either selector or xpath, not both`);
+      if (rule.pattern) {
+        try {
+          new RegExp(rule.pattern);
+        } catch (error) {
+          throw new Error(`${path}${name}: invalid pattern: ${(error as Error).message}`);
+        }
+      }
+      if (rule.fields) checkRules(rule.fields, `${path}${name}.`);
+    }
+  };
+  checkRules(fields, "");
+  if (container && !container.selector && !container.xpath) throw new Error("container needs a selector or xpath");
+}
+
+// Item schema for repeated containers: an array schema's items, otherwise the schema itself
+export function itemSchema(schema: JsonSchema, repeated: boolean): JsonSchema {
+  return repeated && primaryType(schema) === "array" ? schema.items ?? {} : schema;
+}
+
+export function buildResults(schema: JsonSchema, fields: Record<string, FieldRule>, records: RawRecord[], repeated: boolean) {
+  const errors: FieldError[] = [];
+  const item = itemSchema(schema, repeated);
+  const data = repeated ?
+    records.map((record, i) => buildObject(item, fields, record, `[${i}]`, errors)) :
+    buildObject(item, fields, records[0] ?? {}, "", errors);
+  if (repeated && schema.minItems !== undefined && records.length < schema.minItems) {
+    errors.push({ path: "", message: `Expected at least ${schema.minItems} items, found ${records.length}` });
+  }
+  return { data, errors };
+}
@@ -8,76 +8,493 @@ import {
   ListToolsRequestSchema,
   ReadResourceRequestSchema,
   CallToolResult,
+  ProgressToken,
   TextContent,
   ImageContent,
+  EmbeddedResource,
   Tool,
 } from "@modelcontextprotocol/sdk/types.js";
-import puppeteer, { Browser, Page } from "puppeteer-core";
+import { Browser, ElementHandle, Page, PaperFormat, TimeoutError } from "puppeteer-core";
 import dotenv from "dotenv";
 import path from "path";
+import os from "os";
 import { fileURLToPath } from "url";
-import { Client } from "@notionhq/client";
+import { randomUUID } from "crypto";
+import { ArtifactStore } from "./artifacts.js";
+import { createBackend, loadBackendConfig } from "./backends.js";
+import { crawl } from "./crawl.js";
+import { CONTENT_MODES, ContentMode, DEFAULT_MAX_LENGTH, extractContent, paginateContent, validatePagination } from "./content.js";
+import { FieldRule, buildResults, collectFields, validateExtractArgs } from "./extract.js";
+import { clearElement, dragAndDrop, pressKeyCombination, resolveUploadPaths, scrollPage } from "./input.js";
+import { findPageJson } from "./json.js";
+import { LogEntry, filterEntries as filterLogEntries, formatEntry, normalizeLevel, parseEntries } from "./logs.js";
+import { NetworkEntry, attachNetworkCapture, filterEntries, summarizeEntry, toHar } from "./network.js";
+import { RetryOptions, mapWithConcurrency, withRetries, withTimeout } from "./parallel.js";
+import { NavigationGuard, ROUTE_ACTIONS, Route, applyRoutes, compileRoute, describeRoute } from "./routes.js";
+import { DEFAULT_WAIT_TIMEOUT_MS, WAIT_UNTIL_EVENTS, waitFor } from "./wait.js";
+import { checkEvaluate, checkFulfill, checkUrl, loadSafetyPolicy, restrictsUrls } from "./policy.js";
+import { PageSnapshot, disposeSnapshot, resolveRef, takeSnapshot } from "./snapshot.js";
+import {
+  StorageState,
+  captureState,
+  cookieMatchesHost,
+  getAllCookies,
+  readStateFile,
+  restoreState,
+  writeStateFile,
+} from "./state.js";
 
 // 1. Configuration & Environment Setup
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 dotenv.config({ path: path.resolve(__dirname, '../.env') });
 
-// Environment variables configuration
-const requiredEnvVars = {
-  NOTION_API_KEY: process.env.NOTION_API_KEY,
-  BROWSERBASE_API_KEY: process.env.BROWSERBASE_API_KEY,
-  BROWSERBASE_PROJECT_ID: process.env.BROWSERBASE_PROJECT_ID
-};
+// Browser backend (browserbase, cdp or local) validates its own variables
+const backend = createBackend(loadBackendConfig(process.env));
 
-// Validate required environment variables
-Object.entries(requiredEnvVars).forEach(([name, value]) => {
-  if (!value) throw new Error(`${name} environment variable is required`);
-});
+// URL allow/deny lists, private network blocking and script restrictions
+const policy = loadSafetyPolicy(process.env);
 
 // Optional environment variables
-const NOTION_PAGE_URL = process.env.NOTION_PAGE_URL || "https://www.notion.so/default-page";
-const NOTION_DATABASE_ID = process.env.NOTION_DATABASE_ID || "default-database-id";
+// Unset, empty and non-numeric values fall back to the default; zero and negative numbers are refused
+function numberFromEnv(name: string, fallback: number, { allowZero = false } = {}): number {
+  const value = process.env[name]?.trim();
+  const number = value ? Number(value) : NaN;
+  if (Number.isNaN(number)) return fallback;
+  if (number < 0 || (number === 0 && !allowZero)) {
+    throw new Error(`${name} must be a positive number${allowZero ? " or 0" : ""}, got ${value}`);
+  }
+  return number;
+}
+
+// Sessions unused for this long are disconnected; 0 disables reaping
+const SESSION_IDLE_TIMEOUT_MS = numberFromEnv("SESSION_IDLE_TIMEOUT_MS", 10 * 60 * 1000, { allowZero: true });
+// Screenshots, PDFs and console logs are written here, one subfolder per session
+const ARTIFACT_STORE_OPTIONS = {
+  dir: process.env.ARTIFACT_DIR || path.join(os.tmpdir(), "mcp-server-puppeteer"),
+  maxBytes: numberFromEnv("ARTIFACT_MAX_BYTES", 200 * 1024 * 1024),
+  maxCount: numberFromEnv("ARTIFACT_MAX_COUNT", 500),
+  maxLogBytes: numberFromEnv("CONSOLE_LOG_MAX_BYTES", 1024 * 1024),
+};
+const RESOURCE_PAGE_SIZE = 100;
+// Saved cookies and storage, one <name>.json per state; kept outside the artifact store so retention never drops them
+const STATE_DIR = process.env.STATE_DIR || path.join(os.tmpdir(), "mcp-server-puppeteer-state");
+// puppeteer_upload_file may only read files from here; unset disables uploads
+const UPLOAD_DIR = process.env.UPLOAD_DIR;
+// Default number of URLs puppeteer_parallel_sessions loads at once
+const PARALLEL_CONCURRENCY = numberFromEnv("PARALLEL_CONCURRENCY", 4);
+// Network capture keeps the most recent requests per session, with bodies only on request
+const NETWORK_CAPTURE_OPTIONS = {
+  maxEntries: numberFromEnv("NETWORK_MAX_ENTRIES", 1000),
+  captureBodies: process.env.NETWORK_CAPTURE_BODIES === "true",
+  maxBodyBytes: numberFromEnv("NETWORK_MAX_BODY_BYTES", 64 * 1024),
+};
 
 // 2. Global State
-const browsers = new Map<string, { browser: Browser, page: Page }>();
-const consoleLogs: string[] = [];
-const screenshots = new Map<string, string>();
-const notion = new Client({ auth: process.env.NOTION_API_KEY });
+interface SessionMetadata {
+  createdAt: number;
+  lastActivity: number;
+  lastUrl?: string;
+}
+
+interface BrowserSession {
+  id: string;
+  browser: Browser;
+  // The active tab, which every page-scoped tool acts on
+  page: Page;
+  tabs: Map<string, Page>;
+  nextTabId: number;
+  release: () => Promise<void>;
+  metadata: SessionMetadata;
+  snapshot?: PageSnapshot;
+  network: NetworkEntry[];
+  routes: Route[];
+}
+
+const browsers = new Map<string, BrowserSession>();
+// Sessions still starting, so callers racing for the same ID share one browser instead of each opening their own
+const pendingSessions = new Map<string, Promise<BrowserSession>>();
+// Screenshots and PDFs share the screenshot:// namespace, keyed by name
+const artifacts = new ArtifactStore(ARTIFACT_STORE_OPTIONS);
 
 // 3. Helper Functions
-function extractNotionPageId(url: string): string {
-  const match = url.match(/[a-zA-Z0-9]{8}-?[a-zA-Z0-9]{4}-?[a-zA-Z0-9]{4}-?[a-zA-Z0-9]{4}-?[a-zA-Z0-9]{12}/);
-  if (!match) throw new Error("Could not extract page ID from Notion URL");
-  return match[0].replace(/-/g, '');
+// Blocks navigations the policy forbids however they start: links, redirects, forms or scripts
+const navigationGuard: NavigationGuard | undefined = restrictsUrls(policy) ?
+  request => checkUrl(policy, request.url()) :
+  undefined;
+
+async function ensureUrlAllowed(url: string) {
+  const reason = await checkUrl(policy, url);
+  if (reason) throw new Error(`Blocked by URL policy: ${reason}`);
+}
+
+function ensureEvaluateAllowed(page: Page) {
+  const reason = checkEvaluate(policy, page.url());
+  if (reason) throw new Error(`Blocked by script policy: ${reason}`);
+}
+
+// Refuses IDs already in use, including sessions still starting, so an open browser is never replaced and leaked
+async function createNewBrowserSession(sessionId: string, state?: StorageState): Promise<BrowserSession> {
+  if (RESERVED_SESSION_IDS.includes(sessionId)) throw new Error(`Session ID is reserved: ${sessionId}`);
+  if (browsers.has(sessionId) || pendingSessions.has(sessionId)) {
+    throw new Error(`Browser session already exists: ${sessionId}`);
+  }
+  const creating = openBrowserSession(sessionId, state).finally(() => pendingSessions.delete(sessionId));
+  pendingSessions.set(sessionId, creating);
+  return creating;
+}
+
+// The session with this ID, waiting for it if it is still starting, or a new one
+async function getOrCreateSession(sessionId: string): Promise<BrowserSession> {
+  return browsers.get(sessionId) ?? pendingSessions.get(sessionId) ?? createNewBrowserSession(sessionId);
 }
 
-async function createNewBrowserSession(sessionId: string) {
-  const browser = await puppeteer.connect({
-    browserWSEndpoint: `wss://connect.browserbase.com?apiKey=${process.env.BROWSERBASE_API_KEY}`
+async function openBrowserSession(sessionId: string, state?: StorageState): Promise<BrowserSession> {
+  const { browser, page, release } = await backend.open();
+  if (state) {
+    try {
+      await restoreState(page, state);
+    } catch (error) {
+      await release().catch(() => {});
+      throw new Error(`Failed to restore state: ${(error as Error).message}`);
+    }
+  }
+  const now = Date.now();
+  const session: BrowserSession = {
+    id: sessionId,
+    browser,
+    page,
+    tabs: new Map(),
+    nextTabId: 1,
+    release,
+    metadata: { createdAt: now, lastActivity: now },
+    network: [],
+    routes: [],
+  };
+  browsers.set(sessionId, session);
+  server.notification({
+    method: "notifications/resources/list_changed",
   });
-  
-  const page = (await browser.pages())[0];
-  browsers.set(sessionId, { browser, page });
-  
-  // Set up console logging for this session
-  page.on("console", (msg) => {
-    const logEntry = `[Session ${sessionId}][${msg.type()}] ${msg.text()}`;
-    consoleLogs.push(logEntry);
+
+  // Drop the entry once the browser goes away, unless it was already replaced
+  browser.on("disconnected", () => {
+    if (browsers.get(sessionId) === session) {
+      browsers.delete(sessionId);
+      server.notification({
+        method: "notifications/resources/list_changed",
+      });
+    }
+  });
+
+  await attachTab(session, page);
+
+  // Links with target=_blank, window.open and OAuth popups all surface as new page targets
+  page.browserContext().on("targetcreated", async (target) => {
+    if (target.type() !== "page") return;
+    const newPage = await target.page().catch(() => null);
+    if (!newPage || findTabId(session, newPage)) return;
+    const blocked = await checkUrl(policy, target.url());
+    if (blocked) {
+      await newPage.close().catch(() => {});
+      server.notification({
+        method: "notifications/cloud/message",
+        params: {
+          message: `[Session ${sessionId}] Blocked a new tab for ${target.url()}: ${blocked}`,
+          type: "tab_blocked",
+        },
+      });
+      return;
+    }
+    const { tabId, created } = await attachTab(session, newPage);
+    if (!created) return;
     server.notification({
       method: "notifications/cloud/message",
-      params: { message: logEntry, type: "console_log" },
+      params: {
+        message: `[Session ${sessionId}] New tab ${tabId} opened: ${newPage.url()}`,
+        type: "tab_opened",
+      },
     });
   });
+
+  return session;
+}
+
+// Register a page as a tab, with the same capture, logging and routes as the rest of the session.
+// created is false when the page was already registered, e.g. by puppeteer_open_tab racing targetcreated
+async function attachTab(session: BrowserSession, page: Page): Promise<{ tabId: string, created: boolean }> {
+  const existing = findTabId(session, page);
+  if (existing) return { tabId: existing, created: false };
+
+  const tabId = `t${session.nextTabId++}`;
+  const sessionId = session.id;
+  session.tabs.set(tabId, page);
+
+  page.on("framenavigated", (frame) => {
+    if (page === session.page && frame === page.mainFrame()) {
+      session.metadata.lastUrl = frame.url();
+      if (session.snapshot) session.snapshot.stale = true;
+    }
+  });
+
+  // Backstop for navigations that start before interception is on, such as a popup's first load
+  if (navigationGuard) {
+    page.on("framenavigated", async (frame) => {
+      if (frame !== page.mainFrame() || !/^https?:/.test(frame.url())) return;
+      const blocked = await checkUrl(policy, frame.url());
+      if (!blocked) return;
+      recordLog({
+        sessionId,
+        level: "error",
+        timestamp: new Date().toISOString(),
+        source: "network",
+        text: `Blocked navigation to ${frame.url()}: ${blocked}`,
+      });
+      await page.goto("about:blank").catch(() => {});
+    });
+  }
+
+  page.on("close", () => detachTab(session, tabId));
   
-  return { browser, page };
+  attachNetworkCapture(page, session.network, NETWORK_CAPTURE_OPTIONS);
+
+  // Set up console logging for this tab
+  page.on("console", (msg) => {
+    const { url, lineNumber, columnNumber } = msg.location();
+    recordLog({
+      sessionId,
+      level: normalizeLevel(msg.type()),
+      timestamp: new Date().toISOString(),
+      source: "console",
+      text: msg.text(),
+      ...(url && { location: { url, lineNumber, columnNumber } }),
+    });
+  });
+
+  page.on("pageerror", (error) => {
+    recordLog({
+      sessionId,
+      level: "error",
+      timestamp: new Date().toISOString(),
+      source: "pageerror",
+      text: error instanceof Error ? error.stack ?? error.message : String(error),
+    });
+  });
+
+  page.on("requestfailed", (request) => {
+    recordLog({
+      sessionId,
+      level: "error",
+      timestamp: new Date().toISOString(),
+      source: "network",
+      text: `${request.method()} ${request.url()} failed: ${request.failure()?.errorText ?? "unknown error"}`,
+    });
+  });
+
+  if (session.routes.length > 0 || navigationGuard) await applyRoutes(page, session.routes, navigationGuard);
+  return { tabId, created: true };
+}
+
+function findTabId(session: BrowserSession, page: Page): string | undefined {
+  for (const [tabId, tabPage] of Array.from(session.tabs.entries())) {
+    if (tabPage === page) return tabId;
+  }
+  return undefined;
+}
+
+function detachTab(session: BrowserSession, tabId: string) {
+  const page = session.tabs.get(tabId);
+  if (!page) return;
+  session.tabs.delete(tabId);
+  // Fall back to the most recently opened remaining tab
+  if (page === session.page) {
+    const remaining = Array.from(session.tabs.values());
+    if (remaining.length > 0) activateTab(session, remaining[remaining.length - 1]);
+  }
+}
+
+// Page-scoped tools act on session.page, so switching tabs only has to move that pointer
+function activateTab(session: BrowserSession, page: Page) {
+  if (page === session.page) return;
+  session.page = page;
+  session.metadata.lastUrl = page.url();
+  // Refs from the previous tab's snapshot do not resolve in this one
+  if (session.snapshot) session.snapshot.stale = true;
+}
+
+async function describeTabs(session: BrowserSession) {
+  return Promise.all(Array.from(session.tabs.entries()).map(async ([tabId, page]) => ({
+    tabId,
+    url: page.url(),
+    title: await page.title().catch(() => ""),
+    active: page === session.page,
+  })));
+}
+
+async function applySessionRoutes(session: BrowserSession) {
+  await Promise.all(Array.from(session.tabs.values()).map(page => applyRoutes(page, session.routes, navigationGuard)));
+}
+
+function recordLog(entry: LogEntry) {
+  artifacts.appendLog(entry.sessionId, JSON.stringify(entry)).catch(console.error);
+  server.notification({
+    method: "notifications/cloud/message",
+    params: { message: formatEntry(entry), type: "console_log" },
+  });
+}
+
+async function readLogEntries(sessionId: string): Promise<LogEntry[]> {
+  return parseEntries(await artifacts.readLog(sessionId));
+}
+
+function touchSession(session: BrowserSession) {
+  session.metadata.lastActivity = Date.now();
+}
+
+// Resolve the element a tool targets, given either a CSS selector or a snapshot ref
+async function resolveElement(session: BrowserSession, args: { selector?: string, ref?: string }) {
+  if (args.ref) return resolveRef(session.snapshot, args.ref);
+  if (!args.selector) throw new Error("Either selector or ref is required");
+
+  const handle = await session.page.$(args.selector);
+  if (!handle) throw new Error(`Element not found: ${args.selector}`);
+  return handle;
+}
+
+function describeTarget(args: { selector?: string, ref?: string }) {
+  return args.ref ? `ref ${args.ref}` : args.selector;
+}
+
+async function closeBrowserSession(sessionId: string): Promise<boolean> {
+  const session = browsers.get(sessionId);
+  if (!session) return false;
+
+  browsers.delete(sessionId);
+  server.notification({
+    method: "notifications/resources/list_changed",
+  });
+  try {
+    await session.release();
+  } catch (error) {
+    // The connection may already be gone; the session is released either way
+  }
+  return true;
+}
+
+interface ParallelItemOptions extends RetryOptions {
+  timeout: number;
+  reuseExisting: boolean;
+  mode: ContentMode;
+  maxLength: number;
+}
+
+// One attempt creates (or reuses) the session, loads the URL and extracts content within the timeout.
+// A session created by a failed attempt is closed so the retry starts clean
+async function visitParallelItem(item: { id: string, url: string }, options: ParallelItemOptions) {
+  await ensureUrlAllowed(item.url).catch((error) => {
+    throw Object.assign(error, { attempts: 0 });
+  });
+  const existing = browsers.get(item.id);
+  if (existing && !options.reuseExisting) {
+    throw Object.assign(new Error(`Browser session already exists: ${item.id}`), { attempts: 0 });
+  }
+
+  const { value, attempts } = await withRetries(async () => {
+    let created: BrowserSession | undefined;
+    let abandoned = false;
+    const closeCreated = async (session: BrowserSession) => {
+      if (browsers.get(item.id) === session) await closeBrowserSession(item.id);
+      else await session.release().catch(() => {});
+    };
+
+    const work = (async () => {
+      let session = browsers.get(item.id);
+      if (!session) {
+        session = await createNewBrowserSession(item.id);
+        created = session;
+        // The attempt already timed out; nobody will use this session
+        if (abandoned) {
+          await closeCreated(session);
+          throw new Error("Attempt abandoned");
+        }
+      }
+      touchSession(session);
+      const response = await session.page.goto(item.url, { timeout: options.timeout });
+      const content = await session.page.evaluate(extractContent, options.mode, undefined);
+      return { status: response?.status() ?? null, content: paginateContent(content, 0, options.maxLength) };
+    })();
+
+    try {
+      return await withTimeout(work, options.timeout, `Timed out after ${options.timeout}ms`);
+    } catch (error) {
+      abandoned = true;
+      if (created) await closeCreated(created);
+      throw error;
+    }
+  }, options);
+
+  return { ...value, attempts, reused: existing !== undefined };
+}
+
+async function reapIdleSessions() {
+  const cutoff = Date.now() - SESSION_IDLE_TIMEOUT_MS;
+  for (const [sessionId, session] of Array.from(browsers.entries())) {
+    if (session.metadata.lastActivity < cutoff) {
+      console.error(`Closing idle browser session ${sessionId}`);
+      await closeBrowserSession(sessionId);
+    }
+  }
+}
+
+if (SESSION_IDLE_TIMEOUT_MS > 0) {
+  setInterval(() => {
+    reapIdleSessions().catch(console.error);
+  }, Math.min(SESSION_IDLE_TIMEOUT_MS, 60 * 1000)).unref();
 }
 
 // 4. Tool Definitions
+const DEFAULT_SESSION_ID = "default";
+// console://logs is the log of all sessions, so no session may be called logs
+const RESERVED_SESSION_IDS = ["logs"];
+
+const SESSION_ID_PROPERTY = {
+  type: "string",
+  description: `ID of the browser session to use (default: the "${DEFAULT_SESSION_ID}" session, created on first use)`,
+};
+
+const REF_PROPERTY = {
+  type: "string",
+  description: "Element ref from the latest puppeteer_snapshot, as an alternative to selector",
+};
+
+const URL_PATTERN_PROPERTY = {
+  type: "string",
+  description: "Only include requests whose URL contains this text, or matches it when written as /regex/flags",
+};
+
+const RESOURCE_TYPES_PROPERTY = {
+  type: "array",
+  items: { type: "string" },
+  description: "Only include these resource types (e.g. document, xhr, fetch, script, stylesheet, image)",
+};
+
+const SCREENSHOT_FORMATS = ["png", "jpeg", "webp"] as const;
+
 const TOOLS: Tool[] = [
   {
     name: "puppeteer_create_session",
-    description: "Create a new cloud browser session using Browserbase",
+    description: "Create a new browser session on the configured backend and return its ID",
+    inputSchema: {
+      type: "object",
+      properties: {
+        sessionId: { type: "string", description: "ID for the new session (default: generated)" },
+        state: { type: "string", description: "Name of a state saved with puppeteer_save_state to restore cookies and storage from" },
+      },
+      required: [],
+    },
+  },
+  {
+    name: "puppeteer_list_sessions",
+    description: "List open browser sessions with their creation time, last URL and last activity",
     inputSchema: {
       type: "object",
       properties: {},
@@ -85,204 +502,1168 @@ const TOOLS: Tool[] = [
     },
   },
   {
-    name: "puppeteer_navigate",
-    description: "Navigate to a URL",
+    name: "puppeteer_close_session",
+    description: "Close a browser session and release its browser",
     inputSchema: {
       type: "object",
       properties: {
-        url: { type: "string" },
+        sessionId: { type: "string", description: "ID of the session to close" },
       },
-      required: ["url"],
+      required: ["sessionId"],
     },
   },
   {
-    name: "puppeteer_screenshot",
-    description: "Take a screenshot of the current page or a specific element",
+    name: "puppeteer_list_tabs",
+    description: "List the session's open tabs, including ones opened by links or popups, and which one is active",
     inputSchema: {
       type: "object",
       properties: {
-        name: { type: "string", description: "Name for the screenshot" },
-        selector: { type: "string", description: "CSS selector for element to screenshot" },
-        width: { type: "number", description: "Width in pixels (default: 800)" },
-        height: { type: "number", description: "Height in pixels (default: 600)" },
+        sessionId: SESSION_ID_PROPERTY,
       },
-      required: ["name"],
+      required: [],
     },
   },
   {
-    name: "puppeteer_click",
-    description: "Click an element on the page",
+    name: "puppeteer_switch_tab",
+    description: "Make a tab the active one; page tools such as navigate, click and screenshot act on the active tab",
     inputSchema: {
       type: "object",
       properties: {
-        selector: { type: "string", description: "CSS selector for element to click" },
+        tabId: { type: "string", description: "ID of the tab from puppeteer_list_tabs" },
+        sessionId: SESSION_ID_PROPERTY,
       },
-      required: ["selector"],
+      required: ["tabId"],
     },
   },
   {
-    name: "puppeteer_fill",
-    description: "Fill out an input field",
+    name: "puppeteer_open_tab",
+    description: "Open a new tab and make it the active one",
     inputSchema: {
       type: "object",
       properties: {
-        selector: { type: "string", description: "CSS selector for input field" },
-        value: { type: "string", description: "Value to fill" },
+        url: { type: "string", description: "URL to load in the new tab (default: about:blank)" },
+        sessionId: SESSION_ID_PROPERTY,
       },
-      required: ["selector", "value"],
+      required: [],
     },
   },
   {
-    name: "puppeteer_evaluate",
-    description: "Execute JavaScript in the browser console",
+    name: "puppeteer_close_tab",
+    description: "Close a tab. Closing the active tab activates the most recently opened remaining tab",
     inputSchema: {
       type: "object",
       properties: {
-        script: { type: "string", description: "JavaScript code to execute" },
+        tabId: { type: "string", description: "ID of the tab to close (default: the active tab)" },
+        sessionId: SESSION_ID_PROPERTY,
       },
-      required: ["script"],
+      required: [],
     },
   },
   {
-    name: "puppeteer_get_content",
-    description: "Extract all content from the current page",
+    name: "puppeteer_save_state",
+    description: "Save the session's cookies plus localStorage and sessionStorage into a named state that puppeteer_create_session can restore. Storage is read from origins open in the session's tabs",
     inputSchema: {
       type: "object",
       properties: {
-        selector: { 
-          type: "string", 
-          description: "Optional CSS selector to get content from specific elements (default: returns whole page)",
-          required: false 
-        }
+        name: { type: "string", description: "Name for the state (letters, digits, dots, dashes and underscores); an existing state is overwritten" },
+        origins: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only save cookies and storage for these origins, e.g. https://app.example.com (default: all cookies and every origin open in a tab)",
+        },
+        sessionId: SESSION_ID_PROPERTY,
       },
-      required: [], // Removed sessionId requirement since it's not needed
+      required: ["name"],
     },
   },
   {
-    name: "puppeteer_parallel_sessions",
-    description: "Create multiple browser sessions and navigate to different URLs",
+    name: "puppeteer_get_cookies",
+    description: "List cookies in the session. Values are never returned, only their length",
     inputSchema: {
       type: "object",
       properties: {
-        sessions: {
+        domain: { type: "string", description: "Only include cookies sent to this host" },
+        sessionId: SESSION_ID_PROPERTY,
+      },
+      required: [],
+    },
+  },
+  {
+    name: "puppeteer_set_cookies",
+    description: "Add or replace cookies in the session",
+    inputSchema: {
+      type: "object",
+      properties: {
+        cookies: {
           type: "array",
           items: {
             type: "object",
             properties: {
-              url: { type: "string" },
-              id: { type: "string" }
+              name: { type: "string" },
+              value: { type: "string" },
+              url: { type: "string", description: "URL the cookie belongs to (default: the current page)" },
+              domain: { type: "string", description: "Domain instead of url; a leading dot includes subdomains" },
+              path: { type: "string" },
+              expires: { type: "number", description: "Expiry in seconds since the epoch (default: session cookie)" },
+              httpOnly: { type: "boolean" },
+              secure: { type: "boolean" },
+              sameSite: { type: "string", enum: ["Strict", "Lax", "None"] },
             },
-            required: ["url", "id"]
-          }
-        }
+            required: ["name", "value"],
+          },
+        },
+        sessionId: SESSION_ID_PROPERTY,
       },
-      required: ["sessions"]
-    }
+      required: ["cookies"],
+    },
+  },
+  {
+    name: "puppeteer_clear_cookies",
+    description: "Delete cookies from the session, all of them unless filtered",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Only delete cookies with this name" },
+        domain: { type: "string", description: "Only delete cookies sent to this host" },
+        sessionId: SESSION_ID_PROPERTY,
+      },
+      required: [],
+    },
+  },
+  {
+    name: "puppeteer_navigate",
+    description: "Navigate to a URL",
+    inputSchema: {
+      type: "object",
+      properties: {
+        url: { type: "string" },
+        waitUntil: {
+          type: "string",
+          enum: WAIT_UNTIL_EVENTS,
+          description: "When navigation counts as finished: load, domcontentloaded, networkidle0 (no requests for 500ms) or networkidle2 (at most 2) (default: load)",
+        },
+        timeout: { type: "number", description: `Maximum time in milliseconds (default: ${DEFAULT_WAIT_TIMEOUT_MS})` },
+        sessionId: SESSION_ID_PROPERTY,
+      },
+      required: ["url"],
+    },
   },
   {
-    name: "notion_read_page",
-    description: "Read content from a Notion page",
+    name: "puppeteer_wait_for",
+    description: "Wait until a condition holds on the page. Give exactly one of selector, text, url, networkIdle or predicate",
     inputSchema: {
       type: "object",
       properties: {
-        pageUrl: { type: "string", description: "URL of the page to read" },
+        selector: { type: "string", description: "CSS selector to wait for" },
+        state: {
+          type: "string",
+          enum: ["visible", "hidden", "attached"],
+          description: "With selector: wait for the element to be visible, hidden or removed, or merely present in the DOM (default: visible)",
+        },
+        text: { type: "string", description: "Text to wait for in the page's visible text" },
+        url: { type: "string", description: "Wait for the page URL to contain this text, or match it when written as /regex/flags" },
+        networkIdle: { type: "boolean", description: "Wait for the network to go quiet" },
+        idleTime: { type: "number", description: "With networkIdle: how long the network must stay quiet, in milliseconds (default: 500)" },
+        predicate: { type: "string", description: "JavaScript expression to wait for to become truthy" },
+        timeout: { type: "number", description: `Maximum time in milliseconds (default: ${DEFAULT_WAIT_TIMEOUT_MS})` },
+        sessionId: SESSION_ID_PROPERTY,
       },
-      required: [], // Make optional since we'll use default URL if not provided
+      required: [],
     },
   },
   {
-    name: "notion_update_page",
-    description: "Update content in a Notion page",
+    name: "puppeteer_screenshot",
+    description: "Take a screenshot of the current page or a specific element",
     inputSchema: {
       type: "object",
       properties: {
-        pageId: { type: "string", description: "ID of the page to update" },
-        content: { type: "string", description: "Content to update" },
+        name: { type: "string", description: "Name for the screenshot" },
+        selector: { type: "string", description: "CSS selector for element to screenshot" },
+        width: { type: "number", description: "Width in pixels (default: 800)" },
+        height: { type: "number", description: "Height in pixels (default: 600)" },
+        preserveViewport: {
+          type: "boolean",
+          description: "Leave the session's viewport as it was: without width/height capture at the current size, with them resize only for this capture (default: false)",
+        },
+        fullPage: { type: "boolean", description: "Capture the full scrollable page instead of the viewport (default: false)" },
+        format: { type: "string", enum: SCREENSHOT_FORMATS, description: "Image format (default: png)" },
+        quality: { type: "number", description: "Quality from 0 to 100, for jpeg and webp only" },
+        clip: {
+          type: "object",
+          description: "Capture only this rectangle of the page, in CSS pixels",
+          properties: {
+            x: { type: "number" },
+            y: { type: "number" },
+            width: { type: "number" },
+            height: { type: "number" },
+          },
+          required: ["x", "y", "width", "height"],
+        },
+        sessionId: SESSION_ID_PROPERTY,
       },
-      required: ["pageId", "content"],
+      required: ["name"],
     },
   },
   {
-    name: "notion_append_content",
-    description: "Append content to a Notion page",
+    name: "puppeteer_pdf",
+    description: "Print the current page to PDF, stored as a screenshot:// resource",
     inputSchema: {
       type: "object",
       properties: {
-        pageId: { type: "string", description: "ID of the page to append to" },
-        content: { type: "string", description: "Content to append" },
+        name: { type: "string", description: "Name for the PDF" },
+        format: { type: "string", description: "Paper format such as A4 or Letter (default: Letter)" },
+        landscape: { type: "boolean", description: "Use landscape orientation (default: false)" },
+        printBackground: { type: "boolean", description: "Include background graphics (default: false)" },
+        scale: { type: "number", description: "Rendering scale from 0.1 to 2 (default: 1)" },
+        pageRanges: { type: "string", description: "Pages to include, e.g. 1-5, 8 (default: all)" },
+        sessionId: SESSION_ID_PROPERTY,
       },
-      required: ["pageId", "content"],
+      required: ["name"],
     },
   },
   {
-    name: "notion_read_comments",
-    description: "Read comments from a Notion page",
+    name: "puppeteer_snapshot",
+    description: "Capture the page's accessibility tree (role, name, value, state). Interactive elements get a ref usable in place of a selector by the click, fill, hover, select and other element tools",
     inputSchema: {
       type: "object",
       properties: {
-        pageId: { type: "string", description: "ID of the page to read comments from" },
+        sessionId: SESSION_ID_PROPERTY,
       },
-      required: ["pageId"],
+      required: [],
     },
   },
   {
-    name: "notion_add_comment",
-    description: "Add a comment to a Notion page",
+    name: "puppeteer_click",
+    description: "Click an element on the page",
     inputSchema: {
       type: "object",
       properties: {
-        pageId: { type: "string", description: "ID of the page to comment on" },
-        comment: { type: "string", description: "Comment text" },
+        selector: { type: "string", description: "CSS selector for element to click" },
+        ref: REF_PROPERTY,
+        sessionId: SESSION_ID_PROPERTY,
       },
-      required: ["pageId", "comment"],
+      required: [],
     },
   },
   {
-    name: "notion_add_to_database",
-    description: "Add a new entry to a Notion database",
+    name: "puppeteer_fill",
+    description: "Fill out an input field",
     inputSchema: {
       type: "object",
       properties: {
-        databaseId: { 
-          type: "string", 
-          description: "ID of the database (optional - will use default if not provided)" 
-        },
-        title: { type: "string", description: "Title of the entry" },
-        tags: { 
-          type: "array", 
-          description: "Array of tags to add to the entry",
-          items: { type: "string" }
-        },
-        properties: { 
-          type: "object", 
-          description: "Additional properties for the database entry (optional)",
-          additionalProperties: true 
+        selector: { type: "string", description: "CSS selector for input field" },
+        ref: REF_PROPERTY,
+        value: { type: "string", description: "Value to fill" },
+        clearFirst: { type: "boolean", description: "Clear the field's existing value before typing; false appends (default: true)" },
+        sessionId: SESSION_ID_PROPERTY,
+      },
+      required: ["value"],
+    },
+  },
+  {
+    name: "puppeteer_hover",
+    description: "Move the mouse over an element, e.g. to open a hover menu",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "CSS selector for element to hover" },
+        ref: REF_PROPERTY,
+        sessionId: SESSION_ID_PROPERTY,
+      },
+      required: [],
+    },
+  },
+  {
+    name: "puppeteer_select",
+    description: "Choose options in a <select> element by their values",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "CSS selector for the select element" },
+        ref: REF_PROPERTY,
+        values: {
+          type: "array",
+          items: { type: "string" },
+          description: "Option values to select; more than one only for multi-selects",
         },
-        content: { type: "string", description: "Content for the page (optional)" }
+        sessionId: SESSION_ID_PROPERTY,
       },
-      required: ["title"],
+      required: ["values"],
     },
   },
-];
+  {
+    name: "puppeteer_press_key",
+    description: "Press a key or key combination such as Enter, Escape, ArrowDown or Control+A",
+    inputSchema: {
+      type: "object",
+      properties: {
+        key: { type: "string", description: "Key name, or modifiers and a key joined with + (e.g. Shift+Tab, or Control++ for the + key)" },
+        selector: { type: "string", description: "CSS selector for an element to focus first (default: the focused element)" },
+        ref: REF_PROPERTY,
+        sessionId: SESSION_ID_PROPERTY,
+      },
+      required: ["key"],
+    },
+  },
+  {
+    name: "puppeteer_scroll",
+    description: "Scroll an element into view, or scroll the page by an amount or to the top or bottom. Returns the new scroll position and page height, e.g. to drive infinite scroll",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "CSS selector for an element to scroll into view" },
+        ref: REF_PROPERTY,
+        x: { type: "number", description: "Pixels to scroll right (default: 0)" },
+        y: { type: "number", description: "Pixels to scroll down (default: one viewport height)" },
+        to: { type: "string", enum: ["top", "bottom"], description: "Scroll to the top or bottom of the page instead" },
+        sessionId: SESSION_ID_PROPERTY,
+      },
+      required: [],
+    },
+  },
+  {
+    name: "puppeteer_drag",
+    description: "Drag one element onto another",
+    inputSchema: {
+      type: "object",
+      properties: {
+        sourceSelector: { type: "string", description: "CSS selector for the element to drag" },
+        sourceRef: { type: "string", description: "Snapshot ref for the element to drag, instead of sourceSelector" },
+        targetSelector: { type: "string", description: "CSS selector for the drop target" },
+        targetRef: { type: "string", description: "Snapshot ref for the drop target, instead of targetSelector" },
+        sessionId: SESSION_ID_PROPERTY,
+      },
+      required: [],
+    },
+  },
+  {
+    name: "puppeteer_upload_file",
+    description: "Set the files of an <input type=\"file\">, reading them from the server's configured upload directory",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "CSS selector for the file input" },
+        ref: REF_PROPERTY,
+        files: {
+          type: "array",
+          items: { type: "string" },
+          description: "File paths relative to the upload directory",
+        },
+        sessionId: SESSION_ID_PROPERTY,
+      },
+      required: ["files"],
+    },
+  },
+  {
+    name: "puppeteer_evaluate",
+    description: "Execute JavaScript in the browser console",
+    inputSchema: {
+      type: "object",
+      properties: {
+        script: { type: "string", description: "JavaScript code to execute" },
+        sessionId: SESSION_ID_PROPERTY,
+      },
+      required: ["script"],
+    },
+  },
+  {
+    name: "puppeteer_get_content",
+    description: "Extract readable content from the current page as visible text, the main article, or Markdown",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { 
+          type: "string", 
+          description: "Optional CSS selector to get content from specific elements (default: returns whole page)",
+          required: false 
+        },
+        mode: {
+          type: "string",
+          enum: CONTENT_MODES,
+          description: "text: deduplicated visible text; article: main content as Markdown, without navigation and other page chrome; markdown: everything as Markdown (default: text)",
+        },
+        maxLength: { type: "number", minimum: 1, description: `Maximum number of characters to return (default: ${DEFAULT_MAX_LENGTH})` },
+        startIndex: { type: "number", minimum: 0, description: "Character offset to start from, for reading truncated content (default: 0)" },
+        sessionId: SESSION_ID_PROPERTY,
+      },
+      required: [],
+    },
+  },
+  {
+    name: "puppeteer_extract",
+    description: "Extract structured data from the current page. A JSON Schema describes the result and each field names the CSS selector or XPath it is read from; values are converted to the schema's types and problems are reported per field",
+    inputSchema: {
+      type: "object",
+      properties: {
+        schema: {
+          type: "object",
+          description: "JSON Schema of an object (or, with container, of each item). Supports string, number, integer, boolean, nested object and array types plus required, enum and minItems",
+        },
+        fields: {
+          type: "object",
+          description: "Extraction rule per schema property: { selector or xpath, attribute (read an attribute instead of the text), pattern (regex; keeps its first group), fields (rules for a nested object) }. Array-typed properties take every match, others the first; a rule without selector or xpath reads the container itself",
+          additionalProperties: {
+            type: "object",
+            properties: {
+              selector: { type: "string" },
+              xpath: { type: "string" },
+              attribute: { type: "string" },
+              pattern: { type: "string" },
+              fields: { type: "object" },
+            },
+          },
+        },
+        container: {
+          type: "object",
+          description: "Repeated element for list pages, as { selector } or { xpath }; fields are read relative to each match and an array of items is returned",
+          properties: {
+            selector: { type: "string" },
+            xpath: { type: "string" },
+          },
+        },
+        limit: { type: "number", description: "With container: maximum number of items to extract" },
+        sessionId: SESSION_ID_PROPERTY,
+      },
+      required: ["schema", "fields"],
+    },
+  },
+  {
+    name: "puppeteer_get_json",
+    description: "Find structured data embedded in the current page: JSON-LD grouped by @type, OpenGraph and Twitter meta, microdata, and JSON objects and arrays in scripts, meta tags and text, each reported once",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "Optional CSS selector to limit the text search to specific elements" },
+        sessionId: SESSION_ID_PROPERTY,
+      },
+      required: [],
+    },
+  },
+  {
+    name: "puppeteer_get_console_logs",
+    description: "Get a session's console messages, uncaught page errors and failed requests, optionally filtered by level and time",
+    inputSchema: {
+      type: "object",
+      properties: {
+        levels: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only include these levels (e.g. error, warning, info, log, debug)",
+        },
+        since: { type: "string", description: "Only include entries at or after this ISO timestamp or epoch milliseconds" },
+        limit: { type: "number", description: "Return at most this many of the newest matching entries (default: 100)" },
+        sessionId: { type: "string", description: `ID of the session whose logs to read, open or closed (default: "${DEFAULT_SESSION_ID}")` },
+      },
+      required: [],
+    },
+  },
+  {
+    name: "puppeteer_set_route",
+    description: "Intercept matching requests in the session: abort them, fulfill them with a canned response, or continue them with modified headers. Later rules take precedence",
+    inputSchema: {
+      type: "object",
+      properties: {
+        urlPattern: {
+          type: "string",
+          description: "URL glob matched against the full URL (** matches anything, * stays within a path segment), or a regular expression written as /regex/flags",
+        },
+        resourceTypes: RESOURCE_TYPES_PROPERTY,
+        action: { type: "string", enum: ROUTE_ACTIONS, description: "What to do with matching requests" },
+        status: { type: "number", description: "fulfill: response status (default: 200)" },
+        body: { type: "string", description: "fulfill: response body" },
+        contentType: { type: "string", description: "fulfill: response content type" },
+        headers: {
+          type: "object",
+          additionalProperties: { type: "string" },
+          description: "fulfill: response headers; continue: request headers to add or override",
+        },
+        removeHeaders: {
+          type: "array",
+          items: { type: "string" },
+          description: "continue: request headers to remove",
+        },
+        routeId: { type: "string", description: "ID for the rule, replacing an existing rule with the same ID (default: generated)" },
+        sessionId: SESSION_ID_PROPERTY,
+      },
+      required: ["urlPattern", "action"],
+    },
+  },
+  {
+    name: "puppeteer_list_routes",
+    description: "List the session's request interception rules",
+    inputSchema: {
+      type: "object",
+      properties: {
+        sessionId: SESSION_ID_PROPERTY,
+      },
+      required: [],
+    },
+  },
+  {
+    name: "puppeteer_clear_routes",
+    description: "Remove one or all of the session's request interception rules",
+    inputSchema: {
+      type: "object",
+      properties: {
+        routeId: { type: "string", description: "ID of the rule to remove (default: remove all rules)" },
+        sessionId: SESSION_ID_PROPERTY,
+      },
+      required: [],
+    },
+  },
+  {
+    name: "puppeteer_export_har",
+    description: "Export the session's captured network requests as a HAR 1.2 document",
+    inputSchema: {
+      type: "object",
+      properties: {
+        urlPattern: URL_PATTERN_PROPERTY,
+        resourceTypes: RESOURCE_TYPES_PROPERTY,
+        sessionId: SESSION_ID_PROPERTY,
+      },
+      required: [],
+    },
+  },
+  {
+    name: "puppeteer_crawl",
+    description: "Crawl a site breadth-first from a URL in the session's active tab, following links on the same origin up to a depth and page budget, and return each page's title and content. Respects robots.txt and skips duplicate URLs",
+    inputSchema: {
+      type: "object",
+      properties: {
+        url: { type: "string", description: "URL to start from" },
+        maxDepth: { type: "number", description: "How many links away from the start URL to follow (default: 2)" },
+        maxPages: { type: "number", description: "Maximum number of pages to load (default: 20)" },
+        pathPrefix: { type: "string", description: "Only follow links whose path starts with this, e.g. /docs/ (default: the whole origin)" },
+        respectRobots: { type: "boolean", description: "Skip URLs disallowed by the site's robots.txt (default: true)" },
+        mode: {
+          type: "string",
+          enum: CONTENT_MODES,
+          description: "Content to return for each page, as in puppeteer_get_content (default: text)",
+        },
+        maxLength: { type: "number", description: "Maximum characters of content per page (default: 5000)" },
+        timeout: { type: "number", description: `Maximum time in milliseconds to load each page (default: ${DEFAULT_WAIT_TIMEOUT_MS})` },
+        sessionId: SESSION_ID_PROPERTY,
+      },
+      required: ["url"],
+    },
+  },
+  {
+    name: "puppeteer_parallel_sessions",
+    description: "Create multiple browser sessions and navigate to different URLs, a few at a time, returning each page's content. Each session stays open under its id for use with the other puppeteer tools. Sends a progress notification as each URL completes when the request carries a progress token",
+    inputSchema: {
+      type: "object",
+      properties: {
+        sessions: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              url: { type: "string" },
+              id: { type: "string" }
+            },
+            required: ["url", "id"]
+          }
+        },
+        concurrency: { type: "number", description: `Maximum number of URLs loading at once (default: ${PARALLEL_CONCURRENCY})` },
+        timeout: { type: "number", description: `Maximum time in milliseconds for each attempt at a URL (default: ${DEFAULT_WAIT_TIMEOUT_MS})` },
+        retries: { type: "number", description: "Extra attempts for a URL that fails or times out (default: 0)" },
+        retryDelay: { type: "number", description: "Milliseconds before the first retry, doubling for each further retry (default: 1000)" },
+        reuseExisting: { type: "boolean", description: "Navigate an already open session with the same id instead of reporting an error (default: false)" },
+        mode: {
+          type: "string",
+          enum: CONTENT_MODES,
+          description: "Content to return for each page, as in puppeteer_get_content (default: text)",
+        },
+        maxLength: { type: "number", description: `Maximum characters of content per page (default: ${DEFAULT_MAX_LENGTH})` },
+      },
+      required: ["sessions"]
+    }
+  },
+];
+
+// 5. Tool Handler Implementation
+// Tools that manage sessions themselves rather than acting on a page
+const SESSIONLESS_TOOLS = [
+  // Logs outlive their session, so they are looked up by ID rather than through an open session
+  "puppeteer_get_console_logs",
+  "puppeteer_create_session",
+  "puppeteer_parallel_sessions",
+  "puppeteer_list_sessions",
+  "puppeteer_close_session",
+];
+
+async function handleToolCall(
+  name: string,
+  args: any,
+  progressToken?: ProgressToken,
+): Promise<{ toolResult: CallToolResult }> {
+  // Resolve the session for tools that act on a page; an explicit ID must already exist
+  let session: BrowserSession | undefined;
+  if (name.startsWith("puppeteer_") && !SESSIONLESS_TOOLS.includes(name)) {
+    if (args.sessionId !== undefined && typeof args.sessionId !== "string") {
+      return {
+        toolResult: {
+          content: [{
+            type: "text",
+            text: "sessionId must be a string",
+          }],
+          isError: true,
+        },
+      };
+    }
+
+    try {
+      session = args.sessionId === undefined ?
+        await getOrCreateSession(DEFAULT_SESSION_ID) :
+        browsers.get(args.sessionId) ?? await pendingSessions.get(args.sessionId);
+    } catch (error) {
+      return {
+        toolResult: {
+          content: [{
+            type: "text",
+            text: `Failed to create browser session: ${(error as Error).message}`,
+          }],
+          isError: true,
+        },
+      };
+    }
+
+    if (!session) {
+      return {
+        toolResult: {
+          content: [{
+            type: "text",
+            text: `Unknown browser session: ${args.sessionId}. Create it with puppeteer_create_session or omit sessionId to use the default session`,
+          }],
+          isError: true,
+        },
+      };
+    }
+    touchSession(session);
+  }
+  
+  switch (name) {
+    case "puppeteer_list_sessions": {
+      const now = Date.now();
+      const sessions = Array.from(browsers.entries()).map(([id, { metadata, tabs }]) => ({
+        id,
+        tabs: tabs.size,
+        createdAt: new Date(metadata.createdAt).toISOString(),
+        lastActivity: new Date(metadata.lastActivity).toISOString(),
+        idleSeconds: Math.round((now - metadata.lastActivity) / 1000),
+        lastUrl: metadata.lastUrl ?? null,
+      }));
+      return {
+        toolResult: {
+          content: [{
+            type: "text",
+            text: sessions.length > 0 ?
+              `Open sessions:\n${JSON.stringify(sessions, null, 2)}` :
+              "No open browser sessions",
+          }],
+          isError: false,
+        },
+      };
+    }
+
+    case "puppeteer_close_session": {
+      const closed = await closeBrowserSession(args.sessionId);
+      return {
+        toolResult: {
+          content: [{
+            type: "text",
+            text: closed ?
+              `Closed browser session ${args.sessionId}` :
+              `Unknown browser session: ${args.sessionId}`,
+          }],
+          isError: !closed,
+        },
+      };
+    }
+
+    case "puppeteer_create_session":
+      try {
+        const sessionId = args.sessionId ?? `session-${randomUUID().slice(0, 8)}`;
+        if (browsers.has(sessionId) || pendingSessions.has(sessionId)) {
+          return {
+            toolResult: {
+              content: [{
+                type: "text",
+                text: `Browser session already exists: ${sessionId}`,
+              }],
+              isError: true,
+            },
+          };
+        }
+        const state = args.state !== undefined ? await readStateFile(STATE_DIR, args.state) : undefined;
+        await createNewBrowserSession(sessionId, state);
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Created new browser session: ${sessionId}${state ? ` with state ${args.state}` : ""}`,
+            }],
+            isError: false,
+          },
+        };
+      } catch (error) {
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Failed to create browser session: ${(error as Error).message}`,
+            }],
+            isError: true,
+          },
+        };
+      }
+    case "puppeteer_list_tabs":
+      return {
+        toolResult: {
+          content: [{
+            type: "text",
+            text: `Open tabs:\n${JSON.stringify(await describeTabs(session!), null, 2)}`,
+          }],
+          isError: false,
+        },
+      };
+
+    case "puppeteer_switch_tab": {
+      const page = session!.tabs.get(args.tabId);
+      if (!page) {
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Unknown tab: ${args.tabId}. Use puppeteer_list_tabs to see open tabs`,
+            }],
+            isError: true,
+          },
+        };
+      }
+      activateTab(session!, page);
+      await page.bringToFront().catch(() => {});
+      return {
+        toolResult: {
+          content: [{
+            type: "text",
+            text: `Switched to tab ${args.tabId}: ${page.url()}`,
+          }],
+          isError: false,
+        },
+      };
+    }
+
+    case "puppeteer_open_tab":
+      try {
+        if (args.url) await ensureUrlAllowed(args.url);
+        const page = await session!.page.browserContext().newPage();
+        const { tabId } = await attachTab(session!, page);
+        activateTab(session!, page);
+        if (args.url) await page.goto(args.url);
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Opened tab ${tabId}${args.url ? `: ${args.url}` : ""}`,
+            }],
+            isError: false,
+          },
+        };
+      } catch (error) {
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Failed to open tab: ${(error as Error).message}`,
+            }],
+            isError: true,
+          },
+        };
+      }
+
+    case "puppeteer_close_tab": {
+      const tabId = args.tabId ?? findTabId(session!, session!.page);
+      const page = tabId && session!.tabs.get(tabId);
+      if (!page) {
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Unknown tab: ${args.tabId}. Use puppeteer_list_tabs to see open tabs`,
+            }],
+            isError: true,
+          },
+        };
+      }
+      if (session!.tabs.size === 1) {
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Cannot close the last tab; use puppeteer_close_session to close the session`,
+            }],
+            isError: true,
+          },
+        };
+      }
+      try {
+        await page.close();
+        detachTab(session!, tabId);
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Closed tab ${tabId}; active tab is ${findTabId(session!, session!.page)}`,
+            }],
+            isError: false,
+          },
+        };
+      } catch (error) {
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Failed to close tab ${tabId}: ${(error as Error).message}`,
+            }],
+            isError: true,
+          },
+        };
+      }
+    }
+
+    case "puppeteer_save_state":
+      try {
+        const { state, missingOrigins } = await captureState(Array.from(session!.tabs.values()), args.origins);
+        await writeStateFile(STATE_DIR, args.name, state);
+        const summary = [
+          `Saved state ${args.name}: ${state.cookies.length} cookies`,
+          ...state.origins.map(entry =>
+            `${entry.origin}: ${Object.keys(entry.localStorage).length} localStorage and ${Object.keys(entry.sessionStorage).length} sessionStorage items`),
+          ...(missingOrigins.length > 0 ?
+            [`No open tab at ${missingOrigins.join(", ")}, so no storage was saved for ${missingOrigins.length === 1 ? "it" : "them"}`] :
+            []),
+        ];
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: summary.join("\n"),
+            }],
+            isError: false,
+          },
+        };
+      } catch (error) {
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Failed to save state: ${(error as Error).message}`,
+            }],
+            isError: true,
+          },
+        };
+      }
+
+    case "puppeteer_get_cookies":
+      try {
+        const cookies = (await getAllCookies(session!.page))
+          .filter(cookie => !args.domain || cookieMatchesHost(cookie, args.domain))
+          .map(({ value, ...cookie }) => ({
+            name: cookie.name,
+            domain: cookie.domain,
+            path: cookie.path,
+            expires: cookie.session ? null : new Date(cookie.expires * 1000).toISOString(),
+            httpOnly: cookie.httpOnly,
+            secure: cookie.secure,
+            sameSite: cookie.sameSite ?? null,
+            valueLength: value.length,
+          }));
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: cookies.length > 0 ?
+                `Cookies:\n${JSON.stringify(cookies, null, 2)}` :
+                "No cookies",
+            }],
+            isError: false,
+          },
+        };
+      } catch (error) {
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Failed to get cookies: ${(error as Error).message}`,
+            }],
+            isError: true,
+          },
+        };
+      }
+
+    case "puppeteer_set_cookies":
+      try {
+        if (!Array.isArray(args.cookies) || args.cookies.length === 0) throw new Error("cookies is required");
+        await session!.page.setCookie(...args.cookies);
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Set ${args.cookies.length} cookies: ${args.cookies.map((cookie: { name: string }) => cookie.name).join(", ")}`,
+            }],
+            isError: false,
+          },
+        };
+      } catch (error) {
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Failed to set cookies: ${(error as Error).message}`,
+            }],
+            isError: true,
+          },
+        };
+      }
+
+    case "puppeteer_clear_cookies":
+      try {
+        const cookies = (await getAllCookies(session!.page)).filter(cookie =>
+          (!args.name || cookie.name === args.name) &&
+          (!args.domain || cookieMatchesHost(cookie, args.domain)));
+        await session!.page.deleteCookie(...cookies.map(({ name, domain, path }) => ({ name, domain, path })));
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Deleted ${cookies.length} cookies`,
+            }],
+            isError: false,
+          },
+        };
+      } catch (error) {
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Failed to clear cookies: ${(error as Error).message}`,
+            }],
+            isError: true,
+          },
+        };
+      }
+
+    case "puppeteer_navigate":
+      try {
+        if (args.waitUntil !== undefined && !WAIT_UNTIL_EVENTS.includes(args.waitUntil)) {
+          throw new Error(`Unknown waitUntil: ${args.waitUntil} (expected ${WAIT_UNTIL_EVENTS.join(", ")})`);
+        }
+        await ensureUrlAllowed(args.url);
+        const timeout = args.timeout ?? DEFAULT_WAIT_TIMEOUT_MS;
+        const response = await session!.page.goto(args.url, {
+          waitUntil: args.waitUntil ?? "load",
+          timeout,
+        }).catch((error) => {
+          throw error instanceof TimeoutError ?
+            new Error(`Timed out after ${timeout}ms waiting for ${args.waitUntil ?? "load"}`) :
+            error;
+        });
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Navigated to ${args.url}${response ? ` (status ${response.status()})` : ""}`,
+            }],
+            isError: false,
+          },
+        };
+      } catch (error) {
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Failed to navigate to ${args.url}: ${(error as Error).message}`,
+            }],
+            isError: true,
+          },
+        };
+      }
+
+    case "puppeteer_wait_for":
+      try {
+        if (args.predicate !== undefined) ensureEvaluateAllowed(session!.page);
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: await waitFor(session!.page, args),
+            }],
+            isError: false,
+          },
+        };
+      } catch (error) {
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Wait failed: ${(error as Error).message}`,
+            }],
+            isError: true,
+          },
+        };
+      }
+
+    case "puppeteer_screenshot": {
+      const page = session!.page;
+      const format = args.format ?? "png";
+      if (!SCREENSHOT_FORMATS.includes(format)) {
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Unknown format: ${format} (expected ${SCREENSHOT_FORMATS.join(", ")})`,
+            }],
+            isError: true,
+          },
+        };
+      }
+
+      const previousViewport = page.viewport();
+      const resize = !args.preserveViewport || args.width !== undefined || args.height !== undefined;
+      const width = resize ? args.width ?? 800 : previousViewport?.width;
+      const height = resize ? args.height ?? 600 : previousViewport?.height;
+
+      let screenshot: string | undefined;
+      try {
+        if (resize) await page.setViewport({ ...previousViewport, width: width!, height: height! });
+
+        const options = {
+          encoding: "base64" as const,
+          type: format,
+          ...(format !== "png" && args.quality !== undefined && { quality: args.quality }),
+        };
+        screenshot = await (args.selector ? 
+          (await page.$(args.selector))?.screenshot(options) :
+          page.screenshot({ ...options, fullPage: args.fullPage ?? false, clip: args.clip }));
+      } catch (error) {
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Screenshot failed: ${(error as Error).message}`,
+            }],
+            isError: true,
+          },
+        };
+      } finally {
+        if (resize && args.preserveViewport) await page.setViewport(previousViewport).catch(() => {});
+      }
+
+      if (!screenshot) {
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: args.selector ? `Element not found: ${args.selector}` : "Screenshot failed",
+            }],
+            isError: true,
+          },
+        };
+      }
+
+      const mimeType = `image/${format}`;
+      try {
+        await artifacts.put(args.name, session!.id, mimeType, Buffer.from(screenshot, "base64"));
+      } catch (error) {
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Failed to save screenshot: ${(error as Error).message}`,
+            }],
+            isError: true,
+          },
+        };
+      }
+      server.notification({
+        method: "notifications/resources/list_changed",
+      });
+
+      const size = width && height ? ` at ${width}x${height}` : "";
+      return {
+        toolResult: {
+          content: [
+            {
+              type: "text",
+              text: `Screenshot '${args.name}' taken${size}${args.fullPage ? " (full page)" : ""}`,
+            } as TextContent,
+            {
+              type: "image",
+              data: screenshot,
+              mimeType,
+            } as ImageContent,
+          ],
+          isError: false,
+        },
+      };
+    }
+
+    case "puppeteer_pdf":
+      try {
+        const pdf = await session!.page.pdf({
+          format: args.format as PaperFormat | undefined,
+          landscape: args.landscape,
+          printBackground: args.printBackground,
+          scale: args.scale,
+          pageRanges: args.pageRanges,
+        });
+        const data = Buffer.from(pdf).toString("base64");
+        await artifacts.put(args.name, session!.id, "application/pdf", Buffer.from(pdf));
+        server.notification({
+          method: "notifications/resources/list_changed",
+        });
+
+        return {
+          toolResult: {
+            content: [
+              {
+                type: "text",
+                text: `PDF '${args.name}' saved (${pdf.length} bytes)`,
+              } as TextContent,
+              {
+                type: "resource",
+                resource: {
+                  uri: `screenshot://${args.name}`,
+                  mimeType: "application/pdf",
+                  blob: data,
+                },
+              } as EmbeddedResource,
+            ],
+            isError: false,
+          },
+        };
+      } catch (error) {
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Failed to create PDF: ${(error as Error).message}`,
+            }],
+            isError: true,
+          },
+        };
+      }
 
-// 5. Tool Handler Implementation
-async function handleToolCall(name: string, args: any): Promise<{ toolResult: CallToolResult }> {
-// const { browser, page } = browsers.get(args.sessionId) || await createNewBrowserSession(args.sessionId);
-    
-  // Only create default session if it's not a parallel_sessions call
-  const defaultSession = name !== "puppeteer_parallel_sessions" ? 
-    (browsers.get(args.sessionId) || await createNewBrowserSession(args.sessionId)) : 
-    null;
-  
-  switch (name) {
-    case "puppeteer_create_session":
+    case "puppeteer_snapshot":
       try {
-        await createNewBrowserSession(args.sessionId);
+        if (session!.snapshot) await disposeSnapshot(session!.snapshot);
+        session!.snapshot = await takeSnapshot(session!.page);
         return {
           toolResult: {
             content: [{
               type: "text",
-              text: "Created new browser session",
+              text: session!.snapshot.text || "Accessibility tree is empty",
             }],
             isError: false,
           },
@@ -292,76 +1673,153 @@ async function handleToolCall(name: string, args: any): Promise<{ toolResult: Ca
           toolResult: {
             content: [{
               type: "text",
-              text: `Failed to create browser session: ${(error as Error).message}`,
+              text: `Failed to take snapshot: ${(error as Error).message}`,
             }],
             isError: true,
           },
         };
       }
-    case "puppeteer_navigate":
-      await defaultSession!.page.goto(args.url);
-      return {
-        toolResult: {
-          content: [{
-            type: "text",
-            text: `Navigated to ${args.url}`,
-          }],
-          isError: false,
-        },
-      };
 
-    case "puppeteer_screenshot": {
-      const width = args.width ?? 800;
-      const height = args.height ?? 600;
-      await defaultSession!.page.setViewport({ width, height });
+    case "puppeteer_click":
+      try {
+        const element = await resolveElement(session!, args);
+        await element.click();
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Clicked: ${describeTarget(args)}`,
+            }],
+            isError: false,
+          },
+        };
+      } catch (error) {
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Failed to click ${describeTarget(args)}: ${(error as Error).message}`,
+            }],
+            isError: true,
+          },
+        };
+      }
 
-      const screenshot = await (args.selector ? 
-        (await defaultSession!.page.$(args.selector))?.screenshot({ encoding: "base64" }) :
-        defaultSession!.page.screenshot({ encoding: "base64", fullPage: false }));
+    case "puppeteer_fill":
+      try {
+        if (args.selector && !args.ref) await session!.page.waitForSelector(args.selector);
+        const element = await resolveElement(session!, args);
+        if (args.clearFirst ?? true) await clearElement(session!.page, element);
+        await element.type(args.value);
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Filled ${describeTarget(args)} with: ${args.value}`,
+            }],
+            isError: false,
+          },
+        };
+      } catch (error) {
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Failed to fill ${describeTarget(args)}: ${(error as Error).message}`,
+            }],
+            isError: true,
+          },
+        };
+      }
 
-      if (!screenshot) {
+    case "puppeteer_hover":
+      try {
+        const element = await resolveElement(session!, args);
+        await element.hover();
         return {
           toolResult: {
             content: [{
               type: "text",
-              text: args.selector ? `Element not found: ${args.selector}` : "Screenshot failed",
+              text: `Hovered: ${describeTarget(args)}`,
+            }],
+            isError: false,
+          },
+        };
+      } catch (error) {
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Failed to hover ${describeTarget(args)}: ${(error as Error).message}`,
             }],
             isError: true,
           },
         };
       }
 
-      screenshots.set(args.name, screenshot as string);
-      server.notification({
-        method: "notifications/resources/list_changed",
-      });
+    case "puppeteer_select":
+      try {
+        const element = await resolveElement(session!, args);
+        const isSelect = await element.evaluate(el => el instanceof HTMLSelectElement);
+        if (!isSelect) throw new Error("Element is not a <select>");
+        const selected = await element.select(...args.values);
+        const missing = args.values.filter((value: string) => !selected.includes(value));
+        if (missing.length > 0) throw new Error(`No option with value: ${missing.join(", ")}`);
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Selected ${selected.join(", ")} in ${describeTarget(args)}`,
+            }],
+            isError: false,
+          },
+        };
+      } catch (error) {
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Failed to select in ${describeTarget(args)}: ${(error as Error).message}`,
+            }],
+            isError: true,
+          },
+        };
+      }
 
-      return {
-        toolResult: {
-          content: [
-            {
+    case "puppeteer_press_key":
+      try {
+        if (args.selector || args.ref) await (await resolveElement(session!, args)).focus();
+        await pressKeyCombination(session!.page, args.key);
+        return {
+          toolResult: {
+            content: [{
               type: "text",
-              text: `Screenshot '${args.name}' taken at ${width}x${height}`,
-            } as TextContent,
-            {
-              type: "image",
-              data: screenshot,
-              mimeType: "image/png",
-            } as ImageContent,
-          ],
-          isError: false,
-        },
-      };
-    }
+              text: `Pressed ${args.key}${args.selector || args.ref ? ` in ${describeTarget(args)}` : ""}`,
+            }],
+            isError: false,
+          },
+        };
+      } catch (error) {
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Failed to press ${args.key}: ${(error as Error).message}`,
+            }],
+            isError: true,
+          },
+        };
+      }
 
-    case "puppeteer_click":
+    case "puppeteer_scroll":
       try {
-        await defaultSession!.page.click(args.selector);
+        if (args.selector || args.ref) await (await resolveElement(session!, args)).scrollIntoView();
+        const position = await scrollPage(session!.page, args.selector || args.ref ? { x: 0, y: 0 } : args);
         return {
           toolResult: {
             content: [{
               type: "text",
-              text: `Clicked: ${args.selector}`,
+              text: `Scrolled ${args.selector || args.ref ? `to ${describeTarget(args)}` : "page"}:\n${JSON.stringify(position, null, 2)}`,
             }],
             isError: false,
           },
@@ -371,22 +1829,56 @@ async function handleToolCall(name: string, args: any): Promise<{ toolResult: Ca
           toolResult: {
             content: [{
               type: "text",
-              text: `Failed to click ${args.selector}: ${(error as Error).message}`,
+              text: `Failed to scroll: ${(error as Error).message}`,
             }],
             isError: true,
           },
         };
       }
 
-    case "puppeteer_fill":
+    case "puppeteer_drag": {
+      const source = { selector: args.sourceSelector, ref: args.sourceRef };
+      const target = { selector: args.targetSelector, ref: args.targetRef };
+      try {
+        await dragAndDrop(
+          session!.page,
+          await resolveElement(session!, source),
+          await resolveElement(session!, target),
+        );
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Dragged ${describeTarget(source)} onto ${describeTarget(target)}`,
+            }],
+            isError: false,
+          },
+        };
+      } catch (error) {
+        return {
+          toolResult: {
+            content: [{
+              type: "text",
+              text: `Failed to drag ${describeTarget(source)} onto ${describeTarget(target)}: ${(error as Error).message}`,
+            }],
+            isError: true,
+          },
+        };
+      }
+    }
+
+    case "puppeteer_upload_file":
       try {
-        await defaultSession!.page.waitForSelector(args.selector);
-        await defaultSession!.page.type(args.selector, args.value);
+        const paths = resolveUploadPaths(UPLOAD_DIR, args.files);
+        const element = await resolveElement(session!, args);
+        const isFileInput = await element.evaluate(el => el instanceof HTMLInputElement && el.type === "file");
+        if (!isFileInput) throw new Error("Element is not an <input type=\"file\">");
+        await (element as ElementHandle<HTMLInputElement>).uploadFile(...paths);
         return {
           toolResult: {
             content: [{
               type: "text",
-              text: `Filled ${args.selector} with: ${args.value}`,
+              text: `Uploaded ${args.files.join(", ")} to ${describeTarget(args)}`,
             }],
             isError: false,
           },
@@ -396,7 +1888,7 @@ async function handleToolCall(name: string, args: any): Promise<{ toolResult: Ca
           toolResult: {
             content: [{
               type: "text",
-              text: `Failed to fill ${args.selector}: ${(error as Error).message}`,
+              text: `Failed to upload to ${describeTarget(args)}: ${(error as Error).message}`,
             }],
             isError: true,
           },
@@ -405,7 +1897,8 @@ async function handleToolCall(name: string, args: any): Promise<{ toolResult: Ca
 
     case "puppeteer_evaluate":
       try {
-        const result = await defaultSession!.page.evaluate((script) => {
+        ensureEvaluateAllowed(session!.page);
+        const result = await session!.page.evaluate((script) => {
           const logs: string[] = [];
           const originalConsole = { ...console };
           
@@ -449,87 +1942,20 @@ async function handleToolCall(name: string, args: any): Promise<{ toolResult: Ca
         };
       }
 
-    case "puppeteer_get_json":
+    case "puppeteer_extract":
       try {
-        const result = await defaultSession!.page.evaluate((selector) => {
-          // Helper function to find JSON in text
-          function extractJSON(text: string) {
-            const jsonObjects = [];
-            let braceCount = 0;
-            let start = -1;
-            
-            for (let i = 0; i < text.length; i++) {
-              if (text[i] === '{') {
-                if (braceCount === 0) start = i;
-                braceCount++;
-              } else if (text[i] === '}') {
-                braceCount--;
-                if (braceCount === 0 && start !== -1) {
-                  try {
-                    const jsonStr = text.slice(start, i + 1);
-                    const parsed = JSON.parse(jsonStr);
-                    jsonObjects.push(parsed);
-                  } catch (e) {
-                    // Invalid JSON, continue searching
-                  }
-                }
-              }
-            }
-            return jsonObjects;
-          }
-
-          // Get all text content based on selector or full page
-          const elements = selector ? 
-            Array.from(document.querySelectorAll(selector)) : 
-            [document.body];
-          
-          const results = {
-            // Look for JSON in text content
-            textContent: elements.flatMap(el => extractJSON(el.textContent || '')),
-            
-            // Look for JSON in script tags
-            scriptTags: Array.from(document.getElementsByTagName('script'))
-              .flatMap(script => {
-                try {
-                  if (script.type === 'application/json') {
-                    return [JSON.parse(script.textContent || '')];
-                  }
-                  return extractJSON(script.textContent || '');
-                } catch (e) {
-                  return [];
-                }
-              }),
-            
-            // Look for JSON in meta tags
-            metaTags: Array.from(document.getElementsByTagName('meta'))
-              .flatMap(meta => {
-                try {
-                  const content = meta.getAttribute('content') || '';
-                  return extractJSON(content);
-                } catch (e) {
-                  return [];
-                }
-              }),
-            
-            // Look for JSON-LD
-            jsonLd: Array.from(document.querySelectorAll('script[type="application/ld+json"]'))
-              .flatMap(script => {
-                try {
-                  return [JSON.parse(script.textContent || '')];
-                } catch (e) {
-                  return [];
-                }
-              })
-          };
-
-          return results;
-        }, args.selector);
-
+        validateExtractArgs(args.schema, args.fields, args.container);
+        const container: FieldRule | null = args.container ?? null;
+        const records = await session!.page.evaluate(collectFields, args.fields, container, args.limit ?? null);
+        const { data, errors } = buildResults(args.schema, args.fields, records, container !== null);
+        const summary = container ?
+          `Extracted ${records.length} items` :
+          "Extracted data";
         return {
           toolResult: {
             content: [{
               type: "text",
-              text: `Found JSON content:\n${JSON.stringify(result, null, 2)}`,
+              text: `${summary}${errors.length > 0 ? ` with ${errors.length} field errors` : ""}:\n${JSON.stringify({ data, errors }, null, 2)}`,
             }],
             isError: false,
           },
@@ -539,34 +1965,22 @@ async function handleToolCall(name: string, args: any): Promise<{ toolResult: Ca
           toolResult: {
             content: [{
               type: "text",
-              text: `Failed to extract JSON: ${(error as Error).message}`,
+              text: `Failed to extract data: ${(error as Error).message}`,
             }],
             isError: true,
           },
         };
       }
 
-    case "puppeteer_get_content":
+    case "puppeteer_get_json":
       try {
-        let content;
-        if (args.selector) {
-          // If selector is provided, get content from specific elements
-          content = await defaultSession!.page.evaluate((selector) => {
-            const elements = document.querySelectorAll(selector);
-            return Array.from(elements).map(el => el.textContent || '');
-          }, args.selector);
-        } else {
-          // If no selector is provided, get content from the whole page
-          content = await defaultSession!.page.evaluate(() => {
-            return Array.from(document.querySelectorAll('*')).map(el => el.textContent || '');
-          });
-        }
+        const result = await session!.page.evaluate(findPageJson, args.selector);
 
         return {
           toolResult: {
             content: [{
               type: "text",
-              text: `Extracted content:\n${JSON.stringify(content, null, 2)}`,
+              text: `Found JSON content:\n${JSON.stringify(result, null, 2)}`,
             }],
             isError: false,
           },
@@ -576,41 +1990,30 @@ async function handleToolCall(name: string, args: any): Promise<{ toolResult: Ca
           toolResult: {
             content: [{
               type: "text",
-              text: `Failed to extract content: ${(error as Error).message}`,
+              text: `Failed to extract JSON: ${(error as Error).message}`,
             }],
             isError: true,
           },
         };
       }
 
-    case "puppeteer_parallel_sessions":
+    case "puppeteer_get_content":
       try {
-        console.log(`Starting parallel sessions for ${args.sessions.length} sessions`);
-        const results = await Promise.all(args.sessions.map(async (session: { url: string, id: string }) => {
-          console.log(`Creating session for ${session.id}: ${session.url}`);
-          const { page } = await createNewBrowserSession(session.id);
-          try {
-            await page.goto(session.url);
-            const content = await page.evaluate(() => document.body.innerText);
-            return {
-              id: session.id,
-              url: session.url,
-              content: content
-            };
-          } catch (error) {
-            return {
-              id: session.id,
-              url: session.url,
-              error: (error as Error).message
-            };
-          }
-        }));
+        const mode = args.mode ?? "text";
+        if (!CONTENT_MODES.includes(mode)) {
+          throw new Error(`Unknown mode: ${mode} (expected ${CONTENT_MODES.join(", ")})`);
+        }
+        validatePagination(args.startIndex ?? 0, args.maxLength ?? DEFAULT_MAX_LENGTH);
+        const content = await session!.page.evaluate(extractContent, mode, args.selector);
+        if (!content && args.selector) {
+          throw new Error(`No content found for selector: ${args.selector}`);
+        }
 
         return {
           toolResult: {
             content: [{
               type: "text",
-              text: `Parallel sessions results:\n${JSON.stringify(results, null, 2)}`,
+              text: `Extracted content:\n${paginateContent(content, args.startIndex ?? 0, args.maxLength ?? DEFAULT_MAX_LENGTH)}`,
             }],
             isError: false,
           },
@@ -620,26 +2023,28 @@ async function handleToolCall(name: string, args: any): Promise<{ toolResult: Ca
           toolResult: {
             content: [{
               type: "text",
-              text: `Failed to execute parallel sessions: ${(error as Error).message}`,
+              text: `Failed to extract content: ${(error as Error).message}`,
             }],
             isError: true,
           },
         };
       }
 
-    case "notion_read_page":
+    case "puppeteer_get_console_logs":
       try {
-        const pageUrl = args.pageUrl || NOTION_PAGE_URL;
-        const pageId = extractNotionPageId(pageUrl);
-        const pageContent = await notion.blocks.children.list({
-          block_id: pageId,
+        const sessionId = args.sessionId ?? DEFAULT_SESSION_ID;
+        const entries = filterLogEntries(await readLogEntries(sessionId), {
+          levels: args.levels,
+          since: args.since,
+          limit: args.limit ?? 100,
         });
-        
         return {
           toolResult: {
             content: [{
               type: "text",
-              text: JSON.stringify(pageContent, null, 2),
+              text: entries.length > 0 ?
+                JSON.stringify(entries, null, 2) :
+                `No matching log entries for session ${sessionId}`,
             }],
             isError: false,
           },
@@ -649,37 +2054,43 @@ async function handleToolCall(name: string, args: any): Promise<{ toolResult: Ca
           toolResult: {
             content: [{
               type: "text",
-              text: `Failed to read page: ${(error as Error).message}`,
+              text: `Failed to read console logs: ${(error as Error).message}`,
             }],
             isError: true,
           },
         };
       }
 
-    case "notion_update_page":
+    case "puppeteer_set_route":
       try {
-        // Convert content string to blocks array
-        const blocks = [{
-          object: 'block' as const,
-          type: 'paragraph' as const,
-          paragraph: {
-            rich_text: [{
-              type: 'text' as const,
-              text: { content: args.content }
-            }]
-          }
-        }];
-
-        await notion.blocks.children.append({
-          block_id: args.pageId,
-          children: blocks,
+        if (!ROUTE_ACTIONS.includes(args.action)) {
+          throw new Error(`Unknown action: ${args.action} (expected ${ROUTE_ACTIONS.join(", ")})`);
+        }
+        if (args.action === "fulfill") {
+          const reason = checkFulfill(policy);
+          if (reason) throw new Error(`Blocked by script policy: ${reason}`);
+        }
+        const route = compileRoute({
+          id: args.routeId ?? `route-${randomUUID().slice(0, 8)}`,
+          urlPattern: args.urlPattern,
+          resourceTypes: args.resourceTypes,
+          action: args.action,
+          status: args.status,
+          body: args.body,
+          contentType: args.contentType,
+          headers: args.headers,
+          removeHeaders: args.removeHeaders,
         });
-
+        const routes = session!.routes;
+        const existing = routes.findIndex(r => r.id === route.id);
+        if (existing !== -1) routes.splice(existing, 1);
+        routes.push(route);
+        await applySessionRoutes(session!);
         return {
           toolResult: {
             content: [{
               type: "text",
-              text: "Page updated successfully",
+              text: `Route ${route.id} set: ${route.action} ${route.urlPattern}`,
             }],
             isError: false,
           },
@@ -689,36 +2100,52 @@ async function handleToolCall(name: string, args: any): Promise<{ toolResult: Ca
           toolResult: {
             content: [{
               type: "text",
-              text: `Failed to update page: ${(error as Error).message}`,
+              text: `Failed to set route: ${(error as Error).message}`,
             }],
             isError: true,
           },
         };
       }
 
-    case "notion_append_content":
+    case "puppeteer_list_routes":
+      return {
+        toolResult: {
+          content: [{
+            type: "text",
+            text: session!.routes.length > 0 ?
+              `Routes (later rules take precedence):\n${JSON.stringify(session!.routes.map(describeRoute), null, 2)}` :
+              "No routes set",
+          }],
+          isError: false,
+        },
+      };
+
+    case "puppeteer_clear_routes":
       try {
-        const blocks = [{
-          object: 'block' as const,
-          type: 'paragraph' as const,
-          paragraph: {
-            rich_text: [{
-              type: 'text' as const,
-              text: { content: args.content }
-            }]
+        const routes = session!.routes;
+        if (args.routeId !== undefined) {
+          const index = routes.findIndex(r => r.id === args.routeId);
+          if (index === -1) {
+            return {
+              toolResult: {
+                content: [{
+                  type: "text",
+                  text: `Unknown route: ${args.routeId}`,
+                }],
+                isError: true,
+              },
+            };
           }
-        }];
-
-        await notion.blocks.children.append({
-          block_id: args.pageId,
-          children: blocks,
-        });
-
+          routes.splice(index, 1);
+        } else {
+          routes.length = 0;
+        }
+        await applySessionRoutes(session!);
         return {
           toolResult: {
             content: [{
               type: "text",
-              text: "Content appended successfully",
+              text: args.routeId !== undefined ? `Removed route ${args.routeId}` : "Removed all routes",
             }],
             isError: false,
           },
@@ -728,24 +2155,25 @@ async function handleToolCall(name: string, args: any): Promise<{ toolResult: Ca
           toolResult: {
             content: [{
               type: "text",
-              text: `Failed to append content: ${(error as Error).message}`,
+              text: `Failed to clear routes: ${(error as Error).message}`,
             }],
             isError: true,
           },
         };
       }
 
-    case "notion_read_comments":
+    case "puppeteer_export_har":
       try {
-        const comments = await notion.comments.list({
-          block_id: args.pageId,
+        const entries = filterEntries(session!.network, {
+          urlPattern: args.urlPattern,
+          resourceTypes: args.resourceTypes,
         });
-
+        const har = toHar(entries, { name: SERVER_NAME, version: SERVER_VERSION });
         return {
           toolResult: {
             content: [{
               type: "text",
-              text: JSON.stringify(comments, null, 2),
+              text: JSON.stringify(har, null, 2),
             }],
             isError: false,
           },
@@ -755,27 +2183,45 @@ async function handleToolCall(name: string, args: any): Promise<{ toolResult: Ca
           toolResult: {
             content: [{
               type: "text",
-              text: `Failed to read comments: ${(error as Error).message}`,
+              text: `Failed to export HAR: ${(error as Error).message}`,
             }],
             isError: true,
           },
         };
       }
 
-    case "notion_add_comment":
+    case "puppeteer_crawl":
       try {
-        await notion.comments.create({
-          parent: { page_id: args.pageId },
-          rich_text: [{
-            text: { content: args.comment }
-          }],
+        const mode = args.mode ?? "text";
+        if (!CONTENT_MODES.includes(mode)) {
+          throw new Error(`Unknown mode: ${mode} (expected ${CONTENT_MODES.join(", ")})`);
+        }
+        await ensureUrlAllowed(args.url);
+        const maxPages = args.maxPages ?? 20;
+        const result = await crawl(session!.page, {
+          url: args.url,
+          maxDepth: args.maxDepth ?? 2,
+          maxPages,
+          pathPrefix: args.pathPrefix ?? "/",
+          respectRobots: args.respectRobots ?? true,
+          mode,
+          maxLength: args.maxLength ?? 5000,
+          timeout: args.timeout ?? DEFAULT_WAIT_TIMEOUT_MS,
+        }, (_page, visited) => {
+          // Long crawls would otherwise count as idle
+          touchSession(session!);
+          if (progressToken !== undefined) {
+            server.notification({
+              method: "notifications/progress",
+              params: { progressToken, progress: visited, total: maxPages },
+            });
+          }
         });
-
         return {
           toolResult: {
             content: [{
               type: "text",
-              text: "Comment added successfully",
+              text: `Crawled ${result.pages.length} pages (${result.blockedByRobots} blocked by robots.txt, ${result.unvisited} found but not visited):\n${JSON.stringify(result.pages, null, 2)}`,
             }],
             isError: false,
           },
@@ -785,72 +2231,68 @@ async function handleToolCall(name: string, args: any): Promise<{ toolResult: Ca
           toolResult: {
             content: [{
               type: "text",
-              text: `Failed to add comment: ${(error as Error).message}`,
+              text: `Failed to crawl ${args.url}: ${(error as Error).message}`,
             }],
             isError: true,
           },
         };
       }
 
-    case "notion_add_to_database":
+    case "puppeteer_parallel_sessions":
       try {
-        // Process tags if provided
-        const properties: any = {
-          // Title is required
-          Name: {
-            title: [
-              {
-                text: {
-                  content: args.title,
-                },
-              },
-            ],
-          },
-        };
-
-        // Add tags if provided
-        if (args.tags && args.tags.length > 0) {
-          properties.Tags = {
-            multi_select: args.tags.map((tag: string) => ({ name: tag }))
-          };
+        if (!Array.isArray(args.sessions) || args.sessions.length === 0) throw new Error("sessions is required");
+        // Items sharing an ID would each open a browser for it, and all but one would be left unreachable
+        const ids = args.sessions.map((item: { id: string }) => item.id);
+        const duplicates = ids.filter((id: string, index: number) => ids.indexOf(id) !== index);
+        if (duplicates.length > 0) {
+          throw new Error(`Duplicate session IDs: ${Array.from(new Set(duplicates)).join(", ")}`);
         }
-
-        // Add any additional properties
-        if (args.properties) {
-          Object.assign(properties, args.properties);
+        const mode = args.mode ?? "text";
+        if (!CONTENT_MODES.includes(mode)) {
+          throw new Error(`Unknown mode: ${mode} (expected ${CONTENT_MODES.join(", ")})`);
         }
+        const options: ParallelItemOptions = {
+          timeout: args.timeout ?? DEFAULT_WAIT_TIMEOUT_MS,
+          retries: args.retries ?? 0,
+          retryDelay: args.retryDelay ?? 1000,
+          reuseExisting: args.reuseExisting ?? false,
+          mode,
+          maxLength: args.maxLength ?? DEFAULT_MAX_LENGTH,
+        };
 
-        const response = await notion.pages.create({
-          parent: {
-            database_id: args.databaseId || NOTION_DATABASE_ID,
+        let completed = 0;
+        const results = await mapWithConcurrency(
+          args.sessions,
+          args.concurrency ?? PARALLEL_CONCURRENCY,
+          async (item: { url: string, id: string }) => {
+            let result;
+            try {
+              result = { id: item.id, url: item.url, ...await visitParallelItem(item, options) };
+            } catch (error) {
+              result = {
+                id: item.id,
+                url: item.url,
+                attempts: (error as { attempts?: number }).attempts ?? 1,
+                error: (error as Error).message,
+              };
+            }
+            completed++;
+            if (progressToken !== undefined) {
+              server.notification({
+                method: "notifications/progress",
+                params: { progressToken, progress: completed, total: args.sessions.length },
+              });
+            }
+            return result;
           },
-          properties,
-          // Add content if provided
-          ...(args.content && {
-            children: [
-              {
-                object: 'block',
-                type: 'paragraph',
-                paragraph: {
-                  rich_text: [
-                    {
-                      type: 'text',
-                      text: {
-                        content: args.content,
-                      },
-                    },
-                  ],
-                },
-              },
-            ],
-          }),
-        });
+        );
 
+        const failed = results.filter(result => "error" in result).length;
         return {
           toolResult: {
             content: [{
               type: "text",
-              text: `Created database entry: https://notion.so/${response.id.replace(/-/g, '')}`,
+              text: `Parallel sessions results (${results.length - failed} succeeded, ${failed} failed):\n${JSON.stringify(results, null, 2)}`,
             }],
             isError: false,
           },
@@ -860,7 +2302,7 @@ async function handleToolCall(name: string, args: any): Promise<{ toolResult: Ca
           toolResult: {
             content: [{
               type: "text",
-              text: `Failed to create database entry: ${(error as Error).message}`,
+              text: `Failed to execute parallel sessions: ${(error as Error).message}`,
             }],
             isError: true,
           },
@@ -881,10 +2323,13 @@ async function handleToolCall(name: string, args: any): Promise<{ toolResult: Ca
 }
 
 // 6. Server Setup and Configuration
+const SERVER_NAME = "example-servers/browserbase";
+const SERVER_VERSION = "0.1.0";
+
 const server = new Server(
   {
-    name: "example-servers/browserbase",
-    version: "0.1.0",
+    name: SERVER_NAME,
+    version: SERVER_VERSION,
   },
   {
     capabilities: {
@@ -895,43 +2340,101 @@ const server = new Server(
 );
 
 // 7. Request Handlers
-server.setRequestHandler(ListResourcesRequestSchema, async () => ({
-  resources: [
+server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+  const resources = [
     {
       uri: "console://logs",
       mimeType: "text/plain",
       name: "Browser console logs",
     },
-    ...Array.from(screenshots.keys()).map(name => ({
+    ...artifacts.logSessions().filter(sessionId => !RESERVED_SESSION_IDS.includes(sessionId)).map(sessionId => ({
+      uri: `console://${encodeURIComponent(sessionId)}`,
+      mimeType: "application/json",
+      name: `Console logs: ${sessionId}`,
+      description: "Filter with ?level=<comma-separated levels>&since=<ISO timestamp or epoch ms>",
+    })),
+    ...Array.from(browsers.keys()).map(sessionId => ({
+      uri: `network://${encodeURIComponent(sessionId)}`,
+      mimeType: "application/json",
+      name: `Network requests: ${sessionId}`,
+      description: "Filter with ?url=<text or /regex/>&type=<comma-separated resource types>",
+    })),
+    ...artifacts.list().map(({ name, mimeType }) => ({
       uri: `screenshot://${name}`,
-      mimeType: "image/png",
-      name: `Screenshot: ${name}`,
+      mimeType,
+      name: `${mimeType === "application/pdf" ? "PDF" : "Screenshot"}: ${name}`,
     })),
-  ],
-}));
+  ];
+
+  // The cursor is the offset of the next page
+  const start = Number(request.params?.cursor ?? 0) || 0;
+  const end = start + RESOURCE_PAGE_SIZE;
+  return {
+    resources: resources.slice(start, end),
+    ...(end < resources.length && { nextCursor: String(end) }),
+  };
+});
 
 server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
   const uri = request.params.uri.toString();
   
   if (uri === "console://logs") {
+    const entries = (await Promise.all(artifacts.logSessions().map(readLogEntries)))
+      .flat()
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
     return {
       contents: [{
         uri,
         mimeType: "text/plain",
-        text: consoleLogs.join("\n"),
+        text: entries.map(formatEntry).join("\n"),
+      }],
+    };
+  }
+
+  if (uri.startsWith("console://")) {
+    const [sessionId, query = ""] = uri.slice("console://".length).split("?");
+    const params = new URLSearchParams(query);
+    const entries = filterLogEntries(await readLogEntries(decodeURIComponent(sessionId)), {
+      levels: params.get("level")?.split(",").filter(Boolean),
+      since: params.get("since") ?? undefined,
+    });
+    return {
+      contents: [{
+        uri,
+        mimeType: "application/json",
+        text: JSON.stringify(entries, null, 2),
       }],
     };
   }
 
   if (uri.startsWith("screenshot://")) {
     const name = uri.split("://")[1];
-    const screenshot = screenshots.get(name);
-    if (screenshot) {
+    const artifact = await artifacts.get(name);
+    if (artifact) {
+      return {
+        contents: [{
+          uri,
+          mimeType: artifact.record.mimeType,
+          blob: artifact.data.toString("base64"),
+        }],
+      };
+    }
+  }
+
+  if (uri.startsWith("network://")) {
+    const [sessionId, query = ""] = uri.slice("network://".length).split("?");
+    const session = browsers.get(decodeURIComponent(sessionId));
+    if (session) {
+      const params = new URLSearchParams(query);
+      const entries = filterEntries(session.network, {
+        urlPattern: params.get("url") ?? undefined,
+        resourceTypes: params.get("type")?.split(",").filter(Boolean),
+      });
       return {
         contents: [{
           uri,
-          mimeType: "image/png",
-          blob: screenshot,
+          mimeType: "application/json",
+          text: JSON.stringify(entries.map(summarizeEntry), null, 2),
         }],
       };
     }
@@ -945,11 +2448,12 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
 }));
 
 server.setRequestHandler(CallToolRequestSchema, async (request) => 
-  handleToolCall(request.params.name, request.params.arguments ?? {})
+  handleToolCall(request.params.name, request.params.arguments ?? {}, request.params._meta?.progressToken)
 );
 
 // 8. Server Initialization
 async function runServer() {
+  await artifacts.init();
   const transport = new StdioServerTransport();
   await server.connect(transport);
 }
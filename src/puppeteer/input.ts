@@ -0,0 +1,94 @@
+import { ElementHandle, KeyInput, Page } from "puppeteer-core";
+import { existsSync, realpathSync } from "fs";
+import path from "path";
+
+// "Control+Shift+K" holds every key but the last while pressing the last
+// "Control+Shift+A"; a + at the end after a separator, or on its own, is the + key itself
+function parseKeyCombination(combination: string): KeyInput[] {
+  const trimmed = combination.trim();
+  const plusKey = trimmed === "+" || trimmed.endsWith("++");
+  const keys = (plusKey ? trimmed.slice(0, -2) : trimmed).split("+").map(key => key.trim()).filter(Boolean);
+  return (plusKey ? [...keys, "+"] : keys) as KeyInput[];
+}
+
+export async function pressKeyCombination(page: Page, combination: string) {
+  const keys = parseKeyCombination(combination);
+  if (keys.length === 0) throw new Error("key is required");
+
+  const modifiers = keys.slice(0, -1);
+  for (const modifier of modifiers) await page.keyboard.down(modifier);
+  try {
+    await page.keyboard.press(keys[keys.length - 1]);
+  } finally {
+    for (const modifier of modifiers.reverse()) await page.keyboard.up(modifier);
+  }
+}
+
+// Selects the element's current value so the next keystroke replaces it
+export async function clearElement(page: Page, element: ElementHandle<Element>) {
+  await element.focus();
+  await element.evaluate(el => {
+    if (el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement) {
+      el.select();
+      return;
+    }
+    const range = document.createRange();
+    range.selectNodeContents(el);
+    const selection = window.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+  });
+  await page.keyboard.press("Backspace");
+}
+
+async function center(element: ElementHandle<Element>, label: string) {
+  await element.scrollIntoView();
+  const box = await element.boundingBox();
+  if (!box) throw new Error(`${label} element is not visible`);
+  return { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+}
+
+// Drives the mouse through intermediate points so both pointer-based and HTML5 drag handlers fire
+export async function dragAndDrop(page: Page, source: ElementHandle<Element>, target: ElementHandle<Element>) {
+  const from = await center(source, "Source");
+  await page.mouse.move(from.x, from.y);
+  await page.mouse.down();
+  const to = await center(target, "Target");
+  await page.mouse.move(to.x, to.y, { steps: 10 });
+  await page.mouse.up();
+}
+
+export async function scrollPage(page: Page, options: { x?: number, y?: number, to?: "top" | "bottom" }) {
+  return page.evaluate(({ x, y, to }) => {
+    if (to === "top") window.scrollTo(window.scrollX, 0);
+    else if (to === "bottom") window.scrollTo(window.scrollX, document.documentElement.scrollHeight);
+    else window.scrollBy(x ?? 0, y ?? window.innerHeight);
+    return {
+      scrollX: Math.round(window.scrollX),
+      scrollY: Math.round(window.scrollY),
+      scrollHeight: document.documentElement.scrollHeight,
+      viewportHeight: window.innerHeight,
+    };
+  }, options);
+}
+
+// Keeps uploads inside the configured directory, rejecting absolute paths and ../ escapes
+export function resolveUploadPaths(uploadDir: string | undefined, files: string[]): string[] {
+  if (!uploadDir) {
+    throw new Error("File uploads are disabled; set UPLOAD_DIR to the directory files may be uploaded from");
+  }
+  if (!Array.isArray(files) || files.length === 0) throw new Error("files is required");
+
+  const root = realpathSync(path.resolve(uploadDir));
+  return files.map(file => {
+    const resolved = path.resolve(root, file);
+    if (path.isAbsolute(file) || !resolved.startsWith(root + path.sep)) {
+      throw new Error(`${file} is outside the upload directory`);
+    }
+    if (!existsSync(resolved)) throw new Error(`${file} does not exist in the upload directory`);
+    // A symlink inside the directory may point outside it
+    const real = realpathSync(resolved);
+    if (!real.startsWith(root + path.sep)) throw new Error(`${file} is outside the upload directory`);
+    return real;
+  });
+}
@@ -0,0 +1,164 @@
+// Gathers JSON-LD, social cards, microdata and JSON embedded in scripts, meta tags and text, for page.evaluate.
+// The scanner helpers are nested because only this function's own source reaches the page
+export function findPageJson(selector?: string) {
+  const CLOSING: Record<string, string> = { "{": "}", "[": "]" };
+  const SKIP_TAGS = new Set(["SCRIPT", "STYLE", "NOSCRIPT", "TEMPLATE"]);
+
+  // Index of the bracket closing the one at start, skipping brackets inside string literals
+  function matchingBracket(text: string, start: number): number {
+    const stack: string[] = [];
+    let quote: string | null = null;
+    for (let i = start; i < text.length; i++) {
+      const char = text[i];
+      if (quote) {
+        if (char === "\\") i++;
+        else if (char === quote) quote = null;
+      } else if (char === '"' || char === "'" || char === "`") {
+        quote = char;
+      } else if (char === "{" || char === "[") {
+        stack.push(CLOSING[char]);
+      } else if (char === "}" || char === "]") {
+        if (stack.pop() !== char) return -1;
+        if (stack.length === 0) return i;
+      }
+    }
+    return -1;
+  }
+
+  // Empty values and arrays of plain values ("[0]" from code like a[0]) are noise rather than data
+  function isData(value: unknown): boolean {
+    if (Array.isArray(value)) return value.some(item => item !== null && typeof item === "object");
+    return value !== null && typeof value === "object" && Object.keys(value).length > 0;
+  }
+
+  function extractJSON(text: string): unknown[] {
+    const found: unknown[] = [];
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] !== "{" && text[i] !== "[") continue;
+      const end = matchingBracket(text, i);
+      if (end === -1) continue;
+      try {
+        const parsed = JSON.parse(text.slice(i, end + 1));
+        if (isData(parsed)) {
+          found.push(parsed);
+          i = end;
+        }
+      } catch (e) {
+        // Not JSON as a whole (e.g. a JavaScript object literal); look for JSON inside it
+      }
+    }
+    return found;
+  }
+
+  // Text outside scripts and styles, which are scanned separately
+  function visibleText(root: Element): string {
+    const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+      acceptNode: node => {
+        for (let el = node.parentElement; el && el !== root.parentElement; el = el.parentElement) {
+          if (SKIP_TAGS.has(el.tagName)) return NodeFilter.FILTER_REJECT;
+        }
+        return NodeFilter.FILTER_ACCEPT;
+      },
+    });
+    let text = "";
+    while (walker.nextNode()) text += walker.currentNode.nodeValue;
+    return text;
+  }
+
+  // The same object is often embedded twice, e.g. in JSON-LD and a hydration script
+  const seen = new Set<string>();
+  function unique(values: unknown[]): unknown[] {
+    return values.filter(value => {
+      const key = JSON.stringify(value);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  function parseScript(script: Element): unknown[] {
+    try {
+      return [JSON.parse(script.textContent || "")];
+    } catch (e) {
+      return [];
+    }
+  }
+
+  // JSON-LD grouped by @type, with @graph containers and top-level arrays flattened
+  const jsonLd: Record<string, unknown[]> = {};
+  const ldScripts = Array.from(document.querySelectorAll('script[type="application/ld+json"]'));
+  const ldItems = ldScripts.flatMap(parseScript).flatMap(function flatten(value: unknown): unknown[] {
+    if (Array.isArray(value)) return value.flatMap(flatten);
+    const graph = value && typeof value === "object" ? (value as Record<string, unknown>)["@graph"] : undefined;
+    return Array.isArray(graph) ? graph.flatMap(flatten) : [value];
+  });
+  for (const item of unique(ldItems)) {
+    const type = item && typeof item === "object" ? (item as Record<string, unknown>)["@type"] : undefined;
+    const key = Array.isArray(type) ? type.join(",") : typeof type === "string" ? type : "untyped";
+    (jsonLd[key] ??= []).push(item);
+  }
+
+  const scriptTags = unique(Array.from(document.getElementsByTagName("script"))
+    .filter(script => script.type !== "application/ld+json")
+    .flatMap(script => script.type === "application/json" ?
+      parseScript(script).filter(isData) :
+      extractJSON(script.textContent || "")));
+
+  // OpenGraph and Twitter cards as flat objects; repeated properties (e.g. og:image) become arrays
+  const openGraph: Record<string, unknown> = {};
+  const twitter: Record<string, unknown> = {};
+  const metaElements = Array.from(document.getElementsByTagName("meta"));
+  for (const meta of metaElements) {
+    const key = meta.getAttribute("property") || meta.getAttribute("name") || "";
+    const content = meta.getAttribute("content");
+    const target = key.startsWith("og:") ? openGraph : key.startsWith("twitter:") ? twitter : null;
+    if (!target || content === null) continue;
+    const name = key.slice(key.indexOf(":") + 1);
+    const existing = target[name];
+    target[name] = existing === undefined ? content : ([] as unknown[]).concat(existing, content);
+  }
+
+  const metaTags = unique(metaElements.flatMap(meta => extractJSON(meta.getAttribute("content") || "")));
+
+  // Microdata items, with nested itemscopes as nested objects
+  function readItem(scope: Element): Record<string, unknown> {
+    const properties: Record<string, unknown> = {};
+    const visit = (el: Element) => {
+      for (const child of Array.from(el.children)) {
+        const names = (child.getAttribute("itemprop") || "").split(/\s+/).filter(Boolean);
+        const isScope = child.hasAttribute("itemscope");
+        if (names.length > 0) {
+          const value = isScope ? readItem(child) : propertyValue(child);
+          for (const name of names) {
+            const existing = properties[name];
+            properties[name] = existing === undefined ? value : ([] as unknown[]).concat(existing, value);
+          }
+        }
+        // A nested itemscope owns its own properties
+        if (!isScope) visit(child);
+      }
+    };
+    visit(scope);
+    const type = scope.getAttribute("itemtype");
+    return { ...(type && { "@type": type }), ...properties };
+  }
+
+  function propertyValue(el: Element): string {
+    if (el.hasAttribute("content")) return el.getAttribute("content")!;
+    const urlAttribute = ({ A: "href", LINK: "href", AREA: "href", IMG: "src", AUDIO: "src", VIDEO: "src", SOURCE: "src", IFRAME: "src", EMBED: "src", OBJECT: "data" } as Record<string, string>)[el.tagName];
+    if (urlAttribute && el.hasAttribute(urlAttribute)) return new URL(el.getAttribute(urlAttribute)!, document.baseURI).href;
+    if (el.tagName === "TIME" && el.hasAttribute("datetime")) return el.getAttribute("datetime")!;
+    if ((el.tagName === "DATA" || el.tagName === "METER") && el.hasAttribute("value")) return el.getAttribute("value")!;
+    return (el.textContent || "").replace(/\s+/g, " ").trim();
+  }
+
+  const microdata = Array.from(document.querySelectorAll("[itemscope]:not([itemprop])")).map(readItem);
+
+  // Text last, so JSON that was already found in a script or meta tag is not repeated
+  const elements = selector ?
+    Array.from(document.querySelectorAll(selector)) :
+    [document.body];
+  const textContent = unique(elements.flatMap(el => el ? extractJSON(visibleText(el)) : []));
+
+  return { jsonLd, openGraph, twitter, microdata, scriptTags, metaTags, textContent };
+}
@@ -0,0 +1,63 @@
+export type LogSource = "console" | "pageerror" | "network";
+
+export interface LogEntry {
+  sessionId: string;
+  level: string;
+  timestamp: string;
+  source: LogSource;
+  text: string;
+  location?: {
+    url?: string;
+    lineNumber?: number;
+    columnNumber?: number;
+  };
+}
+
+export interface LogFilter {
+  levels?: string[];
+  since?: string | number;
+  limit?: number;
+}
+
+// Puppeteer reports console.warn as "warn" but CDP and most tools say "warning"
+export function normalizeLevel(level: string): string {
+  return level === "warn" ? "warning" : level;
+}
+
+export function formatEntry(entry: LogEntry): string {
+  const where = entry.location?.url ?
+    ` (${entry.location.url}${entry.location.lineNumber !== undefined ? `:${entry.location.lineNumber + 1}` : ""})` :
+    "";
+  return `[${entry.timestamp}][Session ${entry.sessionId}][${entry.level}] ${entry.text}${where}`;
+}
+
+export function parseEntries(lines: string[]): LogEntry[] {
+  return lines.flatMap(line => {
+    try {
+      return [JSON.parse(line) as LogEntry];
+    } catch (error) {
+      // A line cut off by trimming or a crash is skipped
+      return [];
+    }
+  });
+}
+
+export function filterEntries(entries: LogEntry[], filter: LogFilter): LogEntry[] {
+  const levels = filter.levels?.length ? new Set(filter.levels.map(normalizeLevel)) : null;
+
+  let since: number | undefined;
+  if (filter.since !== undefined && filter.since !== "") {
+    since = typeof filter.since === "number" || /^\d+$/.test(filter.since) ?
+      Number(filter.since) :
+      Date.parse(filter.since);
+    if (Number.isNaN(since)) {
+      throw new Error(`Invalid since: ${filter.since} (expected an ISO timestamp or milliseconds since the epoch)`);
+    }
+  }
+
+  const matching = entries.filter(entry =>
+    (!levels || levels.has(entry.level)) &&
+    (since === undefined || Date.parse(entry.timestamp) >= since));
+  // Keep the newest entries when limiting
+  return filter.limit ? matching.slice(-filter.limit) : matching;
+}
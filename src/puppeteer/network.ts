@@ -0,0 +1,219 @@
+import { HTTPRequest, Page, Protocol } from "puppeteer-core";
+
+export interface NetworkCaptureOptions {
+  maxEntries: number;
+  captureBodies: boolean;
+  maxBodyBytes: number;
+}
+
+export interface NetworkEntry {
+  id: number;
+  url: string;
+  method: string;
+  resourceType: string;
+  requestHeaders: Record<string, string>;
+  postData?: string;
+  startedAt: number;
+  finishedAt?: number;
+  status?: number;
+  statusText?: string;
+  responseHeaders?: Record<string, string>;
+  remoteAddress?: string;
+  fromCache?: boolean;
+  timing?: Protocol.Network.ResourceTiming | null;
+  failure?: string;
+  body?: string;
+  bodyEncoding?: "base64";
+  bodySize?: number;
+  bodyTruncated?: boolean;
+}
+
+export interface NetworkFilter {
+  urlPattern?: string;
+  resourceTypes?: string[];
+}
+
+const TEXT_MIME_TYPE = /^text\/|[/+](json|xml|javascript|x-www-form-urlencoded)\b/;
+
+// Shared across pages so entries from a session's tabs never collide
+let nextId = 1;
+
+export function attachNetworkCapture(page: Page, entries: NetworkEntry[], options: NetworkCaptureOptions) {
+  const byRequest = new WeakMap<HTTPRequest, NetworkEntry>();
+
+  page.on("request", (request) => {
+    const entry: NetworkEntry = {
+      id: nextId++,
+      url: request.url(),
+      method: request.method(),
+      resourceType: request.resourceType(),
+      requestHeaders: request.headers(),
+      postData: request.postData(),
+      startedAt: Date.now(),
+    };
+    byRequest.set(request, entry);
+    entries.push(entry);
+    if (entries.length > options.maxEntries) entries.splice(0, entries.length - options.maxEntries);
+  });
+
+  page.on("response", (response) => {
+    const entry = byRequest.get(response.request());
+    if (!entry) return;
+    entry.status = response.status();
+    entry.statusText = response.statusText();
+    entry.responseHeaders = response.headers();
+    entry.fromCache = response.fromCache();
+    entry.timing = response.timing();
+    const { ip, port } = response.remoteAddress();
+    if (ip) entry.remoteAddress = port ? `${ip}:${port}` : ip;
+  });
+
+  page.on("requestfinished", async (request) => {
+    const entry = byRequest.get(request);
+    if (!entry) return;
+    entry.finishedAt = Date.now();
+
+    const response = request.response();
+    // Redirect responses have no body to fetch
+    if (!options.captureBodies || !response || (entry.status ?? 0) >= 300 && (entry.status ?? 0) < 400) return;
+    try {
+      const buffer = await response.buffer();
+      const mimeType = entry.responseHeaders?.["content-type"] ?? "";
+      const kept = buffer.subarray(0, options.maxBodyBytes);
+      entry.bodySize = buffer.length;
+      entry.bodyTruncated = buffer.length > kept.length;
+      if (TEXT_MIME_TYPE.test(mimeType)) {
+        entry.body = kept.toString("utf8");
+      } else {
+        entry.body = kept.toString("base64");
+        entry.bodyEncoding = "base64";
+      }
+    } catch (error) {
+      // The body is gone once the page navigates away; keep the entry without it
+    }
+  });
+
+  page.on("requestfailed", (request) => {
+    const entry = byRequest.get(request);
+    if (!entry) return;
+    entry.finishedAt = Date.now();
+    entry.failure = request.failure()?.errorText ?? "Request failed";
+  });
+}
+
+// A /.../flags pattern as a regular expression, or undefined for any other pattern
+export function parseRegExpPattern(pattern: string): RegExp | undefined {
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  // g and y make test() resume from lastIndex, so the same URL would match only every other time
+  return regex ? new RegExp(regex[1], regex[2].replace(/[gy]/g, "")) : undefined;
+}
+
+export function compileUrlPattern(pattern: string): (url: string) => boolean {
+  // /.../ is a regular expression, anything else a substring
+  const regex = parseRegExpPattern(pattern);
+  if (regex) return url => regex.test(url);
+  return url => url.includes(pattern);
+}
+
+export function filterEntries(entries: NetworkEntry[], filter: NetworkFilter): NetworkEntry[] {
+  const matchesUrl = filter.urlPattern ? compileUrlPattern(filter.urlPattern) : () => true;
+  const types = filter.resourceTypes?.length ? new Set(filter.resourceTypes) : null;
+  return entries.filter(entry => matchesUrl(entry.url) && (!types || types.has(entry.resourceType)));
+}
+
+export function summarizeEntry(entry: NetworkEntry) {
+  return {
+    id: entry.id,
+    method: entry.method,
+    url: entry.url,
+    resourceType: entry.resourceType,
+    status: entry.status ?? null,
+    durationMs: entry.finishedAt ? entry.finishedAt - entry.startedAt : null,
+    ...(entry.failure && { failure: entry.failure }),
+    ...(entry.bodySize !== undefined && { bodySize: entry.bodySize }),
+  };
+}
+
+function toNameValuePairs(headers: Record<string, string> = {}) {
+  return Object.entries(headers).flatMap(([name, value]) =>
+    // CDP joins repeated headers with newlines
+    value.split("\n").map(part => ({ name, value: part })));
+}
+
+function harTimings(entry: NetworkEntry) {
+  const total = entry.finishedAt ? entry.finishedAt - entry.startedAt : 0;
+  const t = entry.timing;
+  if (!t) {
+    return { blocked: -1, dns: -1, connect: -1, ssl: -1, send: 0, wait: total, receive: 0 };
+  }
+
+  const span = (start: number, end: number) => start >= 0 && end >= 0 ? end - start : -1;
+  const firstPhase = [t.dnsStart, t.connectStart, t.sendStart].find(value => value >= 0) ?? 0;
+  return {
+    blocked: Math.max(0, firstPhase),
+    dns: span(t.dnsStart, t.dnsEnd),
+    connect: span(t.connectStart, t.connectEnd),
+    ssl: span(t.sslStart, t.sslEnd),
+    send: Math.max(0, t.sendEnd - t.sendStart),
+    wait: Math.max(0, t.receiveHeadersEnd - t.sendEnd),
+    receive: Math.max(0, total - t.receiveHeadersEnd),
+  };
+}
+
+export function toHar(entries: NetworkEntry[], creator: { name: string, version: string }) {
+  return {
+    log: {
+      version: "1.2",
+      creator,
+      pages: [],
+      entries: entries.map(entry => {
+        const timings = harTimings(entry);
+        const url = new URL(entry.url);
+        const requestMimeType = entry.requestHeaders["content-type"] ?? "";
+        const responseMimeType = entry.responseHeaders?.["content-type"] ?? "";
+        return {
+          startedDateTime: new Date(entry.startedAt).toISOString(),
+          // ssl is already part of connect
+          time: [timings.blocked, timings.dns, timings.connect, timings.send, timings.wait, timings.receive]
+            .filter(value => value > 0)
+            .reduce((sum, value) => sum + value, 0),
+          request: {
+            method: entry.method,
+            url: entry.url,
+            httpVersion: "",
+            cookies: [],
+            headers: toNameValuePairs(entry.requestHeaders),
+            queryString: Array.from(url.searchParams.entries()).map(([name, value]) => ({ name, value })),
+            ...(entry.postData !== undefined && {
+              postData: { mimeType: requestMimeType, text: entry.postData },
+            }),
+            headersSize: -1,
+            bodySize: entry.postData !== undefined ? Buffer.byteLength(entry.postData) : 0,
+          },
+          response: {
+            status: entry.status ?? 0,
+            statusText: entry.statusText ?? "",
+            httpVersion: "",
+            cookies: [],
+            headers: toNameValuePairs(entry.responseHeaders),
+            content: {
+              size: entry.bodySize ?? -1,
+              mimeType: responseMimeType,
+              ...(entry.body !== undefined && { text: entry.body }),
+              ...(entry.bodyEncoding && { encoding: entry.bodyEncoding }),
+              ...(entry.bodyTruncated && { comment: "Body truncated to the configured size cap" }),
+            },
+            redirectURL: entry.responseHeaders?.["location"] ?? "",
+            headersSize: -1,
+            bodySize: entry.bodySize ?? -1,
+            ...(entry.failure && { _error: entry.failure }),
+          },
+          cache: {},
+          timings,
+          ...(entry.remoteAddress && { serverIPAddress: entry.remoteAddress.replace(/:\d+$/, "") }),
+          _resourceType: entry.resourceType,
+        };
+      }),
+    },
+  };
+}
@@ -0,0 +1,47 @@
+export interface RetryOptions {
+  retries: number;
+  // Delay before the first retry, doubled for each one after it
+  retryDelay: number;
+}
+
+// Runs worker over items with at most limit in flight, keeping results in input order
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const runners = Array.from({ length: Math.min(Math.max(1, limit), items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  });
+  await Promise.all(runners);
+  return results;
+}
+
+export function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+export async function withRetries<T>(
+  attempt: (attemptNumber: number) => Promise<T>,
+  options: RetryOptions,
+): Promise<{ value: T, attempts: number }> {
+  for (let attemptNumber = 1; ; attemptNumber++) {
+    try {
+      return { value: await attempt(attemptNumber), attempts: attemptNumber };
+    } catch (error) {
+      if (attemptNumber > options.retries) {
+        throw Object.assign(error as Error, { attempts: attemptNumber });
+      }
+      await new Promise(resolve => setTimeout(resolve, options.retryDelay * 2 ** (attemptNumber - 1)));
+    }
+  }
+}
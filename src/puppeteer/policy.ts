@@ -0,0 +1,189 @@
+import { promises as dns } from "dns";
+import net from "net";
+
+export type EvaluateMode = "enabled" | "disabled" | "restricted";
+
+export const EVALUATE_MODES: EvaluateMode[] = ["enabled", "disabled", "restricted"];
+
+// "example.com", "*.example.com", "https://*.example.com" or a bare scheme such as "file:"
+interface UrlRule {
+  source: string;
+  scheme?: string;
+  host?: RegExp;
+}
+
+export interface SafetyPolicy {
+  schemes: string[];
+  allow: UrlRule[];
+  deny: UrlRule[];
+  blockPrivateNetworks: boolean;
+  evaluate: EvaluateMode;
+  evaluateHosts: UrlRule[];
+}
+
+function parseRule(source: string): UrlRule {
+  const schemeOnly = source.match(/^([a-z][a-z0-9+.-]*):$/i);
+  if (schemeOnly) return { source, scheme: schemeOnly[1].toLowerCase() };
+
+  const withScheme = source.match(/^([a-z][a-z0-9+.-]*):\/\/(.+)$/i);
+  const host = (withScheme ? withScheme[2] : source).toLowerCase().replace(/\/.*$/, "");
+  // * matches one or more characters, so *.example.com covers subdomains but not example.com itself
+  const pattern = host.split("*").map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".+");
+  return {
+    source,
+    scheme: withScheme?.[1].toLowerCase(),
+    host: new RegExp(`^${pattern}$`),
+  };
+}
+
+function parseList(value: string | undefined): UrlRule[] {
+  return (value ?? "").split(/[\s,]+/).filter(Boolean).map(parseRule);
+}
+
+const DEFAULT_URL_SCHEMES = "http,https,about";
+
+export function loadSafetyPolicy(env: NodeJS.ProcessEnv): SafetyPolicy {
+  const evaluate = (env.EVALUATE_MODE || "enabled") as EvaluateMode;
+  if (!EVALUATE_MODES.includes(evaluate)) {
+    throw new Error(`Unknown EVALUATE_MODE: ${evaluate} (expected ${EVALUATE_MODES.join(", ")})`);
+  }
+  return {
+    schemes: (env.ALLOWED_URL_SCHEMES || DEFAULT_URL_SCHEMES)
+      .split(/[\s,]+/).filter(Boolean).map(scheme => scheme.replace(/:$/, "").toLowerCase()),
+    allow: parseList(env.URL_ALLOWLIST),
+    deny: parseList(env.URL_DENYLIST),
+    blockPrivateNetworks: env.BLOCK_PRIVATE_NETWORKS === "true",
+    evaluate,
+    evaluateHosts: parseList(env.EVALUATE_ALLOWED_HOSTS),
+  };
+}
+
+// "example.com." names the same host as "example.com", so rules and checks see the host without the trailing dot
+function urlParts(url: URL) {
+  return { scheme: url.protocol.replace(/:$/, ""), host: url.hostname.replace(/\.$/, "") };
+}
+
+function matchesRule(rule: UrlRule, { scheme, host }: { scheme: string, host: string }): boolean {
+  if (rule.scheme && rule.scheme !== scheme) return false;
+  return !rule.host || (host !== "" && rule.host.test(host));
+}
+
+function isPrivateIPv4(address: string): boolean {
+  const [a, b] = address.split(".").map(Number);
+  return a === 0 || a === 10 || a === 127 || a >= 224 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 192 && b === 0 && address.split(".")[2] === "0") ||
+    (a === 198 && (b === 18 || b === 19));
+}
+
+// The eight 16-bit groups of an IPv6 address, with a trailing dotted IPv4 part converted to two groups
+function ipv6Groups(address: string): number[] {
+  let text = address.toLowerCase();
+  const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted[2].split(".").map(Number);
+    text = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [head, tail] = text.split("::");
+  const parse = (part: string | undefined) => part ? part.split(":").map(group => parseInt(group, 16)) : [];
+  const start = parse(head);
+  const end = parse(tail);
+  return tail === undefined ? start : [...start, ...new Array(8 - start.length - end.length).fill(0), ...end];
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const version = net.isIP(address);
+  if (version === 4) return isPrivateIPv4(address);
+  if (version !== 6) return false;
+
+  const groups = ipv6Groups(address);
+  const embeddedIPv4 = () => `${groups[6] >> 8}.${groups[6] & 0xff}.${groups[7] >> 8}.${groups[7] & 0xff}`;
+  const zeroUntil = (end: number) => groups.slice(0, end).every(group => group === 0);
+
+  // :: and ::1
+  if (zeroUntil(7) && groups[7] <= 1) return true;
+  // IPv4 embedded as ::ffff:a.b.c.d (mapped), ::ffff:0:a.b.c.d (translated), ::a.b.c.d (compatible) or
+  // 64:ff9b::a.b.c.d (NAT64), which the URL parser also writes in hex, e.g. ::ffff:7f00:1
+  if ((zeroUntil(5) && groups[5] === 0xffff) || (zeroUntil(4) && groups[4] === 0xffff && groups[5] === 0) ||
+    zeroUntil(6) ||
+    (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0))) {
+    return isPrivateIPv4(embeddedIPv4());
+  }
+  return (groups[0] & 0xfe00) === 0xfc00 ||  // fc00::/7 unique local
+    (groups[0] & 0xffc0) === 0xfe80 ||  // fe80::/10 link local
+    (groups[0] & 0xffc0) === 0xfec0 ||  // fec0::/10 site local
+    (groups[0] & 0xff00) === 0xff00;  // multicast
+}
+
+// Returns why the host counts as a private network, or undefined when it resolves only to public addresses
+async function checkPrivateNetwork(hostname: string): Promise<string | undefined> {
+  const host = hostname.replace(/^\[|\]$/g, "");
+  if (host === "localhost" || host.endsWith(".localhost")) return `${hostname} is a private network address`;
+  if (net.isIP(host)) return isPrivateAddress(host) ? `${hostname} is a private network address` : undefined;
+  try {
+    const addresses = await dns.lookup(host, { all: true });
+    return addresses.some(({ address }) => isPrivateAddress(address)) ?
+      `${hostname} is a private network address` :
+      undefined;
+  } catch (error) {
+    // The browser may resolve the host differently, so a host that cannot be checked is not loaded
+    return `${hostname} could not be resolved to check for private network addresses: ${(error as Error).message}`;
+  }
+}
+
+// Whether requests need checking at all; without restrictions pages load without interception
+export function restrictsUrls(policy: SafetyPolicy): boolean {
+  const defaultSchemes = DEFAULT_URL_SCHEMES.split(",");
+  const customSchemes = policy.schemes.length !== defaultSchemes.length ||
+    policy.schemes.some(scheme => !defaultSchemes.includes(scheme));
+  return policy.allow.length > 0 || policy.deny.length > 0 || policy.blockPrivateNetworks || customSchemes;
+}
+
+// Returns why the URL is blocked, or undefined when it may be loaded
+export async function checkUrl(policy: SafetyPolicy, url: string): Promise<string | undefined> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch (error) {
+    return `${url} is not a valid URL`;
+  }
+
+  const parts = urlParts(parsed);
+  if (!policy.schemes.includes(parts.scheme)) {
+    return `the ${parts.scheme}: scheme is not allowed (allowed: ${policy.schemes.join(", ")})`;
+  }
+  const denied = policy.deny.find(rule => matchesRule(rule, parts));
+  if (denied) return `${url} matches the deny list entry ${denied.source}`;
+  // about:blank and similar have no host for the allow list to check
+  if (!parts.host) return undefined;
+
+  if (policy.allow.length > 0 && !policy.allow.some(rule => matchesRule(rule, parts))) {
+    return `${parts.host} is not on the allow list`;
+  }
+  return policy.blockPrivateNetworks ? checkPrivateNetwork(parts.host) : undefined;
+}
+
+// Returns why scripts may not run on the page at pageUrl, or undefined when they may
+export function checkEvaluate(policy: SafetyPolicy, pageUrl: string): string | undefined {
+  if (policy.evaluate === "enabled") return undefined;
+  if (policy.evaluate === "disabled") return "running scripts is disabled by EVALUATE_MODE";
+
+  let parsed: URL | undefined;
+  try {
+    parsed = new URL(pageUrl);
+  } catch (error) {
+    parsed = undefined;
+  }
+  const parts = parsed && urlParts(parsed);
+  if (parts?.host && policy.evaluateHosts.some(rule => matchesRule(rule, parts))) return undefined;
+  return `running scripts is only allowed on EVALUATE_ALLOWED_HOSTS, not on ${pageUrl}`;
+}
+
+// A fulfilled route can serve any document or script to the page, so it counts as running scripts
+export function checkFulfill(policy: SafetyPolicy): string | undefined {
+  if (policy.evaluate === "enabled") return undefined;
+  return `fulfill routes can serve scripts, which EVALUATE_MODE=${policy.evaluate} does not allow`;
+}
@@ -0,0 +1,143 @@
+import { HTTPRequest, Page } from "puppeteer-core";
+import { parseRegExpPattern } from "./network.js";
+
+export type RouteAction = "abort" | "fulfill" | "continue";
+
+export const ROUTE_ACTIONS: RouteAction[] = ["abort", "fulfill", "continue"];
+
+export interface RouteRule {
+  id: string;
+  urlPattern: string;
+  resourceTypes?: string[];
+  action: RouteAction;
+  // fulfill
+  status?: number;
+  body?: string;
+  contentType?: string;
+  // fulfill: response headers; continue: request headers to add or override
+  headers?: Record<string, string>;
+  // continue
+  removeHeaders?: string[];
+}
+
+export interface Route extends RouteRule {
+  regex: RegExp;
+}
+
+// Returns why a navigation request must not load, or undefined to let routes handle it
+export type NavigationGuard = (request: HTTPRequest) => Promise<string | undefined>;
+
+const routedPages = new WeakSet<Page>();
+
+// Globs match the whole URL: ** spans any characters, * stays within one path segment
+function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        source += ".*";
+        i++;
+      } else {
+        source += "[^/]*";
+      }
+    } else {
+      source += char.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+// Header names are HTTP tokens, and values may not break onto a new line
+const HEADER_NAME = /^[!#$%&'*+.^_`|~0-9a-z-]+$/i;
+
+// Chrome rejects a bad status or header only when the request is resolved, so they are checked up front
+function validateRoute(rule: RouteRule) {
+  if (rule.status !== undefined && !(Number.isInteger(rule.status) && rule.status >= 100 && rule.status <= 599)) {
+    throw new Error(`status must be an HTTP status code from 100 to 599, got ${rule.status}`);
+  }
+  if (rule.headers !== undefined && (rule.headers === null || typeof rule.headers !== "object" || Array.isArray(rule.headers))) {
+    throw new Error("headers must be an object of header names and values");
+  }
+  for (const [name, value] of Object.entries(rule.headers ?? {})) {
+    if (!HEADER_NAME.test(name)) throw new Error(`Invalid header name: ${JSON.stringify(name)}`);
+    if (typeof value !== "string" || /[\r\n\0]/.test(value)) {
+      throw new Error(`Invalid value for header ${name}: ${JSON.stringify(value)}`);
+    }
+  }
+}
+
+export function compileRoute(rule: RouteRule): Route {
+  validateRoute(rule);
+  return {
+    ...rule,
+    regex: parseRegExpPattern(rule.urlPattern) ?? globToRegExp(rule.urlPattern),
+  };
+}
+
+export function describeRoute({ regex, ...rule }: Route): RouteRule {
+  return rule;
+}
+
+function findRoute(routes: Route[], request: HTTPRequest): Route | undefined {
+  // Later rules take precedence so a narrower rule can override a broad one
+  for (let i = routes.length - 1; i >= 0; i--) {
+    const route = routes[i];
+    if (route.resourceTypes?.length && !route.resourceTypes.includes(request.resourceType())) continue;
+    if (route.regex.test(request.url())) return route;
+  }
+  return undefined;
+}
+
+async function handleRequest(routes: Route[], request: HTTPRequest, guard?: NavigationGuard) {
+  if (guard && request.isNavigationRequest() && await guard(request)) {
+    return request.abort("blockedbyclient");
+  }
+
+  const route = findRoute(routes, request);
+  if (!route) return request.continue();
+  try {
+    return await resolveRoute(route, request);
+  } catch (error) {
+    // A response Chrome refuses would otherwise leave the request pending until the page times out
+    return request.continue();
+  }
+}
+
+async function resolveRoute(route: Route, request: HTTPRequest) {
+  switch (route.action) {
+    case "abort":
+      return request.abort("blockedbyclient");
+    case "fulfill":
+      return request.respond({
+        status: route.status ?? 200,
+        headers: route.headers,
+        contentType: route.contentType,
+        body: route.body ?? "",
+      });
+    case "continue": {
+      const headers = { ...request.headers() };
+      for (const [name, value] of Object.entries(route.headers ?? {})) {
+        headers[name.toLowerCase()] = value;
+      }
+      for (const name of route.removeHeaders ?? []) {
+        delete headers[name.toLowerCase()];
+      }
+      return request.continue({ headers });
+    }
+  }
+}
+
+// Turns interception on while the page has rules or a guard; the array is read on every request,
+// so later changes to it apply without reinstalling
+export async function applyRoutes(page: Page, routes: Route[], guard?: NavigationGuard) {
+  if (!routedPages.has(page)) {
+    routedPages.add(page);
+    page.on("request", (request) => {
+      if (request.isInterceptResolutionHandled()) return;
+      // Throws when interception is off, which just means there is nothing to resolve
+      handleRequest(routes, request, guard).catch(() => {});
+    });
+  }
+  await page.setRequestInterception(routes.length > 0 || guard !== undefined);
+}
@@ -0,0 +1,106 @@
+import { ElementHandle, Page, SerializedAXNode } from "puppeteer-core";
+
+// Roles an agent can act on; only these nodes get a ref
+const INTERACTIVE_ROLES = new Set([
+  "button",
+  "checkbox",
+  "combobox",
+  "link",
+  "listbox",
+  "menuitem",
+  "menuitemcheckbox",
+  "menuitemradio",
+  "option",
+  "radio",
+  "searchbox",
+  "slider",
+  "spinbutton",
+  "switch",
+  "tab",
+  "textbox",
+  "treeitem",
+]);
+
+// Structural wrappers that add nothing once their children are hoisted
+const TRANSPARENT_ROLES = new Set(["generic", "none", "presentation"]);
+
+export interface PageSnapshot {
+  text: string;
+  refs: Map<string, ElementHandle<Element>>;
+  // Set once the page navigates away from the document the refs point into
+  stale: boolean;
+}
+
+function describeNode(node: SerializedAXNode): string {
+  const parts = [node.role];
+  if (node.name) parts.push(JSON.stringify(node.name));
+  if (node.value !== undefined && node.value !== "") parts.push(`value=${JSON.stringify(node.value)}`);
+  if (node.level !== undefined) parts.push(`[level=${node.level}]`);
+  if (node.checked !== undefined) parts.push(`[checked=${node.checked}]`);
+  if (node.pressed !== undefined) parts.push(`[pressed=${node.pressed}]`);
+  if (node.expanded !== undefined) parts.push(`[expanded=${node.expanded}]`);
+  if (node.selected) parts.push("[selected]");
+  if (node.disabled) parts.push("[disabled]");
+  if (node.focused) parts.push("[focused]");
+  if (node.required) parts.push("[required]");
+  if (node.readonly) parts.push("[readonly]");
+  return parts.join(" ");
+}
+
+export async function takeSnapshot(page: Page): Promise<PageSnapshot> {
+  const root = await page.accessibility.snapshot({ interestingOnly: true });
+  const refs = new Map<string, ElementHandle<Element>>();
+  const lines: string[] = [];
+
+  async function visit(node: SerializedAXNode, depth: number) {
+    const children = node.children ?? [];
+    if (TRANSPARENT_ROLES.has(node.role) && !node.name) {
+      for (const child of children) await visit(child, depth);
+      return;
+    }
+
+    let line = `${"  ".repeat(depth)}- ${describeNode(node)}`;
+    if (INTERACTIVE_ROLES.has(node.role)) {
+      const handle = await node.elementHandle();
+      if (handle) {
+        const ref = `e${refs.size + 1}`;
+        refs.set(ref, handle as ElementHandle<Element>);
+        line += ` [ref=${ref}]`;
+      }
+    }
+    lines.push(line);
+
+    for (const child of children) await visit(child, depth + 1);
+  }
+
+  if (root) {
+    // The root is the document itself; list its contents at the top level
+    for (const child of root.children ?? []) await visit(child, 0);
+  }
+
+  return { text: lines.join("\n"), refs, stale: false };
+}
+
+export async function disposeSnapshot(snapshot: PageSnapshot) {
+  await Promise.all(Array.from(snapshot.refs.values()).map(handle => handle.dispose().catch(() => {})));
+}
+
+export async function resolveRef(snapshot: PageSnapshot | undefined, ref: string): Promise<ElementHandle<Element>> {
+  if (!snapshot) {
+    throw new Error(`No snapshot taken yet; call puppeteer_snapshot before using ref ${ref}`);
+  }
+  if (snapshot.stale) {
+    throw new Error(`Ref ${ref} is stale because the page navigated; call puppeteer_snapshot again`);
+  }
+
+  const handle = snapshot.refs.get(ref);
+  if (!handle) {
+    throw new Error(`Unknown ref ${ref}; call puppeteer_snapshot to get current refs`);
+  }
+
+  const connected = await handle.evaluate(el => el.isConnected).catch(() => false);
+  if (!connected) {
+    throw new Error(`Ref ${ref} is stale because the element was removed from the page; call puppeteer_snapshot again`);
+  }
+  return handle;
+}
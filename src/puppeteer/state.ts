@@ -0,0 +1,157 @@
+import { CookieParam, HTTPRequest, Page, Protocol } from "puppeteer-core";
+import { promises as fs } from "fs";
+import path from "path";
+
+export interface OriginStorage {
+  origin: string;
+  localStorage: Record<string, string>;
+  sessionStorage: Record<string, string>;
+}
+
+export interface StorageState {
+  savedAt: string;
+  cookies: CookieParam[];
+  origins: OriginStorage[];
+}
+
+const STATE_NAME = /^[\w-][\w.-]*$/;
+
+function stateFile(dir: string, name: string): string {
+  if (!STATE_NAME.test(name)) {
+    throw new Error(`Invalid state name: ${name} (use letters, digits, dots, dashes and underscores)`);
+  }
+  return path.join(dir, `${name}.json`);
+}
+
+export async function writeStateFile(dir: string, name: string, state: StorageState) {
+  const file = stateFile(dir, name);
+  await fs.mkdir(dir, { recursive: true, mode: 0o700 });
+  // States hold session cookies and tokens, so only the server's user may read them
+  await fs.writeFile(file, JSON.stringify(state, null, 2), { mode: 0o600 });
+}
+
+export async function readStateFile(dir: string, name: string): Promise<StorageState> {
+  try {
+    return JSON.parse(await fs.readFile(stateFile(dir, name), "utf8")) as StorageState;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") throw new Error(`Unknown state: ${name}`);
+    throw error;
+  }
+}
+
+// Network.getAllCookies covers every domain in the page's browser context, not just the current URL
+export async function getAllCookies(page: Page): Promise<Protocol.Network.Cookie[]> {
+  const client = await page.createCDPSession();
+  try {
+    const { cookies } = await client.send("Network.getAllCookies");
+    return cookies;
+  } finally {
+    await client.detach().catch(() => {});
+  }
+}
+
+export function cookieMatchesHost(cookie: { domain: string }, host: string): boolean {
+  const domain = cookie.domain.replace(/^\./, "");
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+function toCookieParam(cookie: Protocol.Network.Cookie): CookieParam {
+  return {
+    name: cookie.name,
+    value: cookie.value,
+    domain: cookie.domain,
+    path: cookie.path,
+    secure: cookie.secure,
+    httpOnly: cookie.httpOnly,
+    ...(cookie.sameSite && { sameSite: cookie.sameSite }),
+    ...(!cookie.session && { expires: cookie.expires }),
+  };
+}
+
+function originOf(url: string): string | undefined {
+  try {
+    const { origin, protocol } = new URL(url);
+    return protocol === "http:" || protocol === "https:" ? origin : undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+// Storage is read from frames already open at each origin, since sessionStorage only exists per tab
+export async function captureState(pages: Page[], origins?: string[]) {
+  const wanted = origins?.length ? new Set(origins.map(origin => {
+    const normalized = originOf(origin);
+    if (!normalized) throw new Error(`Invalid origin: ${origin} (expected e.g. https://app.example.com)`);
+    return normalized;
+  })) : null;
+  const hosts = wanted && Array.from(wanted).map(origin => new URL(origin).hostname);
+
+  const cookies = (await getAllCookies(pages[0]))
+    .filter(cookie => !hosts || hosts.some(host => cookieMatchesHost(cookie, host)))
+    .map(toCookieParam);
+
+  const storage = new Map<string, OriginStorage>();
+  for (const page of pages) {
+    for (const frame of page.frames()) {
+      const origin = originOf(frame.url());
+      if (!origin || storage.has(origin) || (wanted && !wanted.has(origin))) continue;
+      try {
+        const { local, session } = await frame.evaluate(() => {
+          const read = (store: Storage) => {
+            const items: Record<string, string> = {};
+            for (let i = 0; i < store.length; i++) {
+              const key = store.key(i)!;
+              items[key] = store.getItem(key) ?? "";
+            }
+            return items;
+          };
+          return { local: read(localStorage), session: read(sessionStorage) };
+        });
+        storage.set(origin, { origin, localStorage: local, sessionStorage: session });
+      } catch (error) {
+        // Sandboxed frames deny storage access; they have nothing to save
+      }
+    }
+  }
+
+  const state: StorageState = {
+    savedAt: new Date().toISOString(),
+    cookies,
+    origins: Array.from(storage.values()),
+  };
+  const missingOrigins = wanted ? Array.from(wanted).filter(origin => !storage.has(origin)) : [];
+  return { state, missingOrigins };
+}
+
+// Restores into a fresh page before anything else is attached to it. Each origin is visited with a stub
+// document so storage can be written without loading the real site
+export async function restoreState(page: Page, state: StorageState) {
+  if (state.cookies.length > 0) await page.setCookie(...state.cookies);
+
+  const origins = state.origins.filter(entry =>
+    Object.keys(entry.localStorage).length > 0 || Object.keys(entry.sessionStorage).length > 0);
+  if (origins.length === 0) return;
+
+  const stub = (request: HTTPRequest) => {
+    if (request.isNavigationRequest() && request.frame() === page.mainFrame()) {
+      request.respond({ status: 200, contentType: "text/html", body: "<html></html>" }).catch(() => {});
+    } else {
+      request.abort().catch(() => {});
+    }
+  };
+  await page.setRequestInterception(true);
+  page.on("request", stub);
+  try {
+    for (const entry of origins) {
+      await page.goto(entry.origin);
+      await page.evaluate((local, session) => {
+        for (const [key, value] of Object.entries(local)) localStorage.setItem(key, value);
+        for (const [key, value] of Object.entries(session)) sessionStorage.setItem(key, value);
+      }, entry.localStorage, entry.sessionStorage);
+    }
+  } finally {
+    page.off("request", stub);
+    await page.setRequestInterception(false);
+  }
+  await page.goto("about:blank");
+}
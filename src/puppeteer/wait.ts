@@ -0,0 +1,76 @@
+import { Page, PuppeteerLifeCycleEvent, TimeoutError } from "puppeteer-core";
+import { compileUrlPattern } from "./network.js";
+
+export const WAIT_UNTIL_EVENTS: PuppeteerLifeCycleEvent[] = ["load", "domcontentloaded", "networkidle0", "networkidle2"];
+
+export const DEFAULT_WAIT_TIMEOUT_MS = 30000;
+
+export interface WaitCondition {
+  selector?: string;
+  state?: "visible" | "hidden" | "attached";
+  text?: string;
+  url?: string;
+  networkIdle?: boolean;
+  idleTime?: number;
+  predicate?: string;
+  timeout?: number;
+}
+
+const CONDITION_KEYS = ["selector", "text", "url", "networkIdle", "predicate"] as const;
+
+function describeCondition(condition: WaitCondition): string {
+  if (condition.selector !== undefined) return `selector ${condition.selector} to be ${condition.state ?? "visible"}`;
+  if (condition.text !== undefined) return `text ${JSON.stringify(condition.text)} to appear`;
+  if (condition.url !== undefined) return `URL to match ${condition.url}`;
+  if (condition.networkIdle) return `network to be idle for ${condition.idleTime ?? 500}ms`;
+  return `predicate ${condition.predicate} to be truthy`;
+}
+
+async function waitForUrl(page: Page, pattern: string, timeout: number) {
+  const matches = compileUrlPattern(pattern);
+  const deadline = Date.now() + timeout;
+  // Polled from here rather than in the page so navigations do not interrupt the wait
+  while (!matches(page.url())) {
+    if (Date.now() >= deadline) throw new TimeoutError(`URL is still ${page.url()}`);
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+}
+
+export async function waitFor(page: Page, condition: WaitCondition): Promise<string> {
+  const given = CONDITION_KEYS.filter(key => condition[key] !== undefined && condition[key] !== false);
+  if (given.length !== 1) {
+    throw new Error(`Exactly one of ${CONDITION_KEYS.join(", ")} is required`);
+  }
+
+  const timeout = condition.timeout ?? DEFAULT_WAIT_TIMEOUT_MS;
+  const startedAt = Date.now();
+  try {
+    if (condition.selector !== undefined) {
+      const state = condition.state ?? "visible";
+      await page.waitForSelector(condition.selector, {
+        visible: state === "visible",
+        hidden: state === "hidden",
+        timeout,
+      });
+    } else if (condition.text !== undefined) {
+      await page.waitForFunction(
+        (text: string) => document.body?.innerText.includes(text) ?? false,
+        { timeout },
+        condition.text,
+      );
+    } else if (condition.url !== undefined) {
+      await waitForUrl(page, condition.url, timeout);
+    } else if (condition.networkIdle) {
+      await page.waitForNetworkIdle({ idleTime: condition.idleTime ?? 500, timeout });
+    } else {
+      await page.waitForFunction(condition.predicate!, { timeout });
+    }
+  } catch (error) {
+    if (error instanceof TimeoutError) {
+      throw new Error(`Timed out after ${timeout}ms waiting for ${describeCondition(condition)}`);
+    }
+    throw error;
+  }
+
+  return `Waited ${Date.now() - startedAt}ms for ${describeCondition(condition)}`;
+}